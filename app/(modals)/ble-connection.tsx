@@ -51,6 +51,7 @@ const Page = () => {
     scanForPeripherals,
     requestPermissions,
     connectedDevice,
+    isReconnecting,
     disconnectFromDevice,
   } = useBLEContext();
 
@@ -105,17 +106,29 @@ const Page = () => {
           </TouchableOpacity>
         </View>
       ) : (
-        <FlatList
-          contentContainerStyle={modalStyle.modalFlatlistContiner}
-          data={allDevices}
-          renderItem={renderDeviceModalListItem}
-          keyExtractor={(item) => item.id}
-          ListEmptyComponent={
-            <View style={{ alignItems: "center", marginTop: 40 }}>
-              <Text>No devices found.</Text>
+        <>
+          {isReconnecting && (
+            <View style={modalStyle.reconnectingContainer}>
+              <Text style={modalStyle.reconnectingText}>
+                Reconnecting to the last bridge…
+              </Text>
+              <TouchableOpacity onPress={disconnectFromDevice}>
+                <Text style={modalStyle.reconnectingCancelText}>Stop</Text>
+              </TouchableOpacity>
             </View>
-          }
-        />
+          )}
+          <FlatList
+            contentContainerStyle={modalStyle.modalFlatlistContiner}
+            data={allDevices}
+            renderItem={renderDeviceModalListItem}
+            keyExtractor={(item) => item.id}
+            ListEmptyComponent={
+              <View style={{ alignItems: "center", marginTop: 40 }}>
+                <Text>No devices found.</Text>
+              </View>
+            }
+          />
+        </>
       )}
     </SafeAreaView>
   );
@@ -195,6 +208,25 @@ const modalStyle = StyleSheet.create({
     borderWidth: 2,
     borderColor: "#CC4848",
   },
+  reconnectingContainer: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginHorizontal: 20,
+    marginTop: 20,
+    padding: 15,
+    borderRadius: 8,
+    backgroundColor: "#fff",
+  },
+  reconnectingText: {
+    fontSize: 14,
+    color: "#6C757D",
+  },
+  reconnectingCancelText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#FF6060",
+  },
   disconnectButtonText: {
     fontSize: 16,
     fontWeight: "600",
@@ -0,0 +1,251 @@
+import { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  Share,
+} from "react-native";
+import { router, useLocalSearchParams } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+
+import ContactAvatar from "@/components/ContactAvatar";
+import Colors from "@/constants/Colors";
+import { useChatContext } from "@/util/contextChat";
+import { createAddEndpointLink, createChatLink } from "@/util/deepLinks";
+
+const shareLink = async (message: string) => {
+  try {
+    await Share.share({ message });
+  } catch (error) {
+    console.error("Failed to share link:", error);
+  }
+};
+
+const Page = () => {
+  const { chatId } = useLocalSearchParams<{ chatId: string }>();
+  const { getChatContact, updateContact } = useChatContext();
+  const contact = getChatContact(chatId);
+
+  const [name, setName] = useState(contact?.name ?? "");
+  const [notes, setNotes] = useState(contact?.notes ?? "");
+
+  // Start over from the stored details when another contact is shown
+  useEffect(() => {
+    setName(contact?.name ?? "");
+    setNotes(contact?.notes ?? "");
+  }, [contact?.id]);
+
+  if (!contact) {
+    return (
+      <View style={[styles.container, styles.content]}>
+        <Text style={styles.helperText}>This chat no longer exists.</Text>
+      </View>
+    );
+  }
+
+  const addLink = createAddEndpointLink(contact);
+  const chatLink = createChatLink(contact);
+  const hasChanges = name.trim() !== contact.name || notes !== contact.notes;
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert("Error", "Please enter a name");
+      return;
+    }
+
+    await updateContact(contact.id, { name: name.trim(), notes });
+    setName(name.trim());
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+    >
+      <View style={styles.header}>
+        <ContactAvatar contact={{ ...contact, name }} size={72} />
+        <Text style={styles.endpoint}>
+          {contact.deviceName} @ {contact.macAddress}
+        </Text>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.label}>Name</Text>
+        <TextInput
+          style={styles.input}
+          value={name}
+          onChangeText={setName}
+          placeholder="Name shown in the app"
+          maxLength={40}
+        />
+        <Text style={styles.label}>Notes</Text>
+        <TextInput
+          style={[styles.input, styles.notesInput]}
+          value={notes}
+          onChangeText={setNotes}
+          placeholder="Role, location, call sign…"
+          multiline
+        />
+        <TouchableOpacity
+          style={[styles.button, !hasChanges && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={!hasChanges}
+        >
+          <Ionicons name="checkmark" size={20} color="white" />
+          <Text style={styles.buttonText}>Save</Text>
+        </TouchableOpacity>
+      </View>
+
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() =>
+          router.push({
+            pathname: "/(modals)/encryption",
+            params: { chatId },
+          })
+        }
+      >
+        <Ionicons
+          name={contact.encryptionKey ? "lock-closed" : "lock-open-outline"}
+          size={20}
+          color={contact.encryptionKey ? Colors.primary : Colors.gray}
+        />
+        <Text style={styles.rowText}>
+          {contact.encryptionKey ? "End-to-end encrypted" : "Not encrypted"}
+        </Text>
+        <Ionicons name="chevron-forward" size={20} color={Colors.gray} />
+      </TouchableOpacity>
+
+      <View style={styles.section}>
+        <Text style={styles.label}>Contact Link</Text>
+        <Text style={styles.helperText}>
+          Opens the new chat form with this endpoint filled in. Share it with
+          teammates who should reach {contact.name}.
+        </Text>
+        <Text style={styles.link} selectable>
+          {addLink}
+        </Text>
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => shareLink(addLink)}
+        >
+          <Ionicons name="person-add-outline" size={20} color="white" />
+          <Text style={styles.buttonText}>Share Contact</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.label}>Chat Link</Text>
+        <Text style={styles.helperText}>
+          Opens the conversation with {contact.name} on phones that already
+          have one.
+        </Text>
+        <Text style={styles.link} selectable>
+          {chatLink}
+        </Text>
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: Colors.gray }]}
+          onPress={() => shareLink(chatLink)}
+        >
+          <Ionicons name="link-outline" size={20} color="white" />
+          <Text style={styles.buttonText}>Share Chat Link</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    paddingTop: 60,
+    paddingBottom: 40,
+    paddingHorizontal: 14,
+  },
+  header: {
+    alignItems: "center",
+    gap: 12,
+    marginBottom: 20,
+  },
+  endpoint: {
+    fontSize: 15,
+    color: Colors.gray,
+    fontFamily: "monospace",
+  },
+  input: {
+    padding: 12,
+    marginBottom: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.lightGray,
+    backgroundColor: "#fff",
+    fontSize: 16,
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    padding: 12,
+    marginBottom: 20,
+    borderRadius: 10,
+    backgroundColor: "#fff",
+  },
+  rowText: {
+    flex: 1,
+    fontSize: 16,
+  },
+  section: {
+    marginBottom: 20,
+  },
+  label: {
+    marginBottom: 8,
+    fontWeight: "600",
+    fontSize: 16,
+    color: "#333",
+  },
+  helperText: {
+    fontSize: 13,
+    color: Colors.gray,
+    marginBottom: 8,
+  },
+  link: {
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: "#fff",
+    fontSize: 13,
+    fontFamily: "monospace",
+    color: Colors.primary,
+  },
+  button: {
+    flexDirection: "row",
+    gap: 8,
+    height: 44,
+    marginTop: 8,
+    borderRadius: 8,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: Colors.primary,
+  },
+  buttonDisabled: {
+    backgroundColor: Colors.lightGray,
+  },
+  buttonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
+
+export default Page;
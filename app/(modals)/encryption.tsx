@@ -0,0 +1,260 @@
+import { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  Share,
+} from "react-native";
+import { router, useLocalSearchParams } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+
+import Colors from "@/constants/Colors";
+import { useChatContext } from "@/util/contextChat";
+import {
+  generateEncryptionKey,
+  getKeyFingerprint,
+  isValidEncryptionKey,
+  normalizeEncryptionKey,
+} from "@/util/encryption";
+
+const Page = () => {
+  const { chatId } = useLocalSearchParams<{ chatId: string }>();
+  const { getChatContact, setContactEncryptionKey } = useChatContext();
+  const contact = getChatContact(chatId);
+  const encryptionKey = contact?.encryptionKey;
+
+  const [keyInput, setKeyInput] = useState("");
+  const [fingerprint, setFingerprint] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!encryptionKey) {
+      setFingerprint(null);
+      return;
+    }
+
+    let cancelled = false;
+    getKeyFingerprint(encryptionKey)
+      .then((value) => {
+        if (!cancelled) {
+          setFingerprint(value);
+        }
+      })
+      .catch((error) => console.error("Failed to compute fingerprint:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [encryptionKey]);
+
+  if (!contact) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.helperText}>This chat no longer exists.</Text>
+      </View>
+    );
+  }
+
+  const handleSaveKey = async () => {
+    const key = normalizeEncryptionKey(keyInput);
+    if (!isValidEncryptionKey(key)) {
+      Alert.alert(
+        "Invalid Key",
+        "A key is 64 hexadecimal characters (0-9, a-f)"
+      );
+      return;
+    }
+
+    await setContactEncryptionKey(contact.id, key);
+    setKeyInput("");
+  };
+
+  // The key itself has to reach the other party over a channel they trust
+  const handleShareKey = async () => {
+    if (!encryptionKey) {
+      return;
+    }
+
+    try {
+      await Share.share({ message: encryptionKey });
+    } catch (error) {
+      console.error("Failed to share key:", error);
+    }
+  };
+
+  const handleRemoveKey = () => {
+    Alert.alert(
+      "Turn Off Encryption",
+      `Messages to ${contact.name} will be sent in clear text, and encrypted messages from ${contact.name} can no longer be read.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Turn Off",
+          style: "destructive",
+          onPress: () => setContactEncryptionKey(contact.id, null),
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.status}>
+        <Ionicons
+          name={encryptionKey ? "lock-closed" : "lock-open-outline"}
+          size={40}
+          color={encryptionKey ? Colors.primary : Colors.gray}
+        />
+        <Text style={styles.title}>
+          {encryptionKey ? "End-to-End Encrypted" : "Not Encrypted"}
+        </Text>
+        <Text style={styles.helperText}>
+          {encryptionKey
+            ? `Messages and files with ${contact.name} can only be read by devices that have this contact's key. Received messages that were not sealed with it are marked as not verified.`
+            : `Messages and files with ${contact.name} are sent in clear text. Set a key both devices share to encrypt them.`}
+        </Text>
+      </View>
+
+      {encryptionKey && (
+        <View style={styles.section}>
+          <Text style={styles.label}>Key Fingerprint</Text>
+          <Text style={styles.fingerprint}>{fingerprint ?? "…"}</Text>
+          <Text style={styles.helperText}>
+            Compare it with {contact.name} in person or over a call. The keys
+            match when both devices show the same fingerprint.
+          </Text>
+
+          <TouchableOpacity style={styles.button} onPress={handleShareKey}>
+            <Ionicons name="share-outline" size={20} color="white" />
+            <Text style={styles.buttonText}>Share Key</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: Colors.red }]}
+            onPress={handleRemoveKey}
+          >
+            <Ionicons name="lock-open-outline" size={20} color="white" />
+            <Text style={styles.buttonText}>Turn Off Encryption</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.label}>
+          {encryptionKey ? "Replace Key" : "Set Key"}
+        </Text>
+        <Text style={styles.helperText}>
+          Paste the key {contact.name} shared, or generate one and share it.
+        </Text>
+        <TextInput
+          style={styles.input}
+          placeholder="64 hexadecimal characters"
+          value={keyInput}
+          onChangeText={setKeyInput}
+          autoCapitalize="none"
+          autoCorrect={false}
+          multiline
+        />
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: Colors.gray }]}
+          onPress={() => setKeyInput(generateEncryptionKey())}
+        >
+          <Ionicons name="key-outline" size={20} color="white" />
+          <Text style={styles.buttonText}>Generate New Key</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, !keyInput.trim() && styles.disabledButton]}
+          onPress={handleSaveKey}
+          disabled={!keyInput.trim()}
+        >
+          <Ionicons name="lock-closed-outline" size={20} color="white" />
+          <Text style={styles.buttonText}>Save Key</Text>
+        </TouchableOpacity>
+      </View>
+
+      <TouchableOpacity style={styles.doneButton} onPress={() => router.back()}>
+        <Text style={styles.doneText}>Done</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 60,
+    paddingHorizontal: 14,
+    backgroundColor: Colors.background,
+  },
+  status: {
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: Colors.primary,
+  },
+  section: {
+    marginBottom: 20,
+  },
+  label: {
+    marginBottom: 8,
+    fontWeight: "600",
+    fontSize: 16,
+    color: "#333",
+  },
+  helperText: {
+    fontSize: 13,
+    color: Colors.gray,
+    marginBottom: 8,
+  },
+  fingerprint: {
+    fontSize: 22,
+    fontFamily: "monospace",
+    letterSpacing: 1,
+    color: "#333",
+    marginBottom: 8,
+  },
+  input: {
+    minHeight: 60,
+    borderColor: "#ccc",
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    backgroundColor: "#fff",
+    fontSize: 14,
+    fontFamily: "monospace",
+    marginBottom: 4,
+  },
+  button: {
+    flexDirection: "row",
+    gap: 8,
+    height: 44,
+    marginTop: 8,
+    borderRadius: 8,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: Colors.primary,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  doneButton: {
+    alignItems: "center",
+    padding: 12,
+  },
+  doneText: {
+    fontSize: 17,
+    color: Colors.primary,
+    fontWeight: "600",
+  },
+});
+
+export default Page;
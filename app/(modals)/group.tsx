@@ -0,0 +1,197 @@
+import { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  FlatList,
+  Alert,
+} from "react-native";
+import { router, useLocalSearchParams } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+
+import ContactAvatar from "@/components/ContactAvatar";
+import Colors from "@/constants/Colors";
+import { useChatContext } from "@/util/contextChat";
+
+// Fewest members a group chat can have
+const MIN_GROUP_MEMBERS = 2;
+
+// Creates a group chat from the contacts, or edits the group of the chat
+// passed as chatId
+const Page = () => {
+  const { chatId } = useLocalSearchParams<{ chatId?: string }>();
+  const { configuredChats, contacts, addGroupChat, updateGroupChat } =
+    useChatContext();
+  const group = configuredChats.find(({ id }) => id === chatId)?.group;
+
+  const [name, setName] = useState(group?.name ?? "");
+  const [memberIds, setMemberIds] = useState<string[]>(
+    group?.memberIds ?? []
+  );
+
+  const toggleMember = (contactId: string) =>
+    setMemberIds((selected) =>
+      selected.includes(contactId)
+        ? selected.filter((id) => id !== contactId)
+        : [...selected, contactId]
+    );
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert("Error", "Please enter a group name");
+      return;
+    }
+    if (memberIds.length < MIN_GROUP_MEMBERS) {
+      Alert.alert(
+        "Error",
+        `Select at least ${MIN_GROUP_MEMBERS} contacts for the group`
+      );
+      return;
+    }
+
+    if (chatId && group) {
+      await updateGroupChat(chatId, { name: name.trim(), memberIds });
+      router.back();
+    } else {
+      const groupChatId = await addGroupChat(name.trim(), memberIds);
+      router.replace(`/(tabs)/chats/${groupChatId}`);
+    }
+  };
+
+  if (chatId && !group) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.helperText}>This chat no longer exists.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Group Name</Text>
+      <TextInput
+        style={styles.input}
+        value={name}
+        onChangeText={setName}
+        placeholder="Field team"
+        maxLength={40}
+      />
+
+      <Text style={styles.label}>Members</Text>
+      <Text style={styles.helperText}>
+        Every message is sent to each member in turn. Messages sent before a
+        change keep the members they were sent to.
+      </Text>
+      <FlatList
+        style={styles.list}
+        data={contacts}
+        keyExtractor={({ id }) => id}
+        ListEmptyComponent={
+          <Text style={styles.helperText}>
+            Add chats with the members first, the group is made of their
+            contacts.
+          </Text>
+        }
+        renderItem={({ item }) => {
+          const isSelected = memberIds.includes(item.id);
+          return (
+            <TouchableOpacity
+              style={styles.member}
+              onPress={() => toggleMember(item.id)}
+              accessibilityRole="checkbox"
+              accessibilityState={{ checked: isSelected }}
+            >
+              <ContactAvatar contact={item} size={36} />
+              <View style={{ flex: 1 }}>
+                <Text style={styles.memberName}>{item.name}</Text>
+                <Text style={styles.memberAddress}>{item.macAddress}</Text>
+              </View>
+              <Ionicons
+                name={isSelected ? "checkmark-circle" : "ellipse-outline"}
+                size={24}
+                color={isSelected ? Colors.primary : Colors.gray}
+              />
+            </TouchableOpacity>
+          );
+        }}
+      />
+
+      <TouchableOpacity style={styles.button} onPress={handleSave}>
+        <Ionicons name="people-outline" size={20} color="white" />
+        <Text style={styles.buttonText}>
+          {group ? "Save Group" : "Create Group"}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: 60,
+    paddingBottom: 30,
+    paddingHorizontal: 14,
+    backgroundColor: Colors.background,
+  },
+  label: {
+    marginBottom: 8,
+    fontWeight: "600",
+    fontSize: 16,
+    color: "#333",
+  },
+  helperText: {
+    fontSize: 13,
+    color: Colors.gray,
+    marginBottom: 8,
+  },
+  input: {
+    padding: 12,
+    marginBottom: 20,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.lightGray,
+    backgroundColor: "#fff",
+    fontSize: 16,
+  },
+  list: {
+    flex: 1,
+  },
+  member: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    padding: 10,
+    marginBottom: 6,
+    borderRadius: 10,
+    backgroundColor: "#fff",
+  },
+  memberName: {
+    fontSize: 16,
+    fontWeight: "500",
+  },
+  memberAddress: {
+    fontSize: 13,
+    color: Colors.gray,
+    fontFamily: "monospace",
+  },
+  button: {
+    flexDirection: "row",
+    gap: 8,
+    height: 44,
+    marginTop: 12,
+    borderRadius: 8,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: Colors.primary,
+  },
+  buttonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
+
+export default Page;
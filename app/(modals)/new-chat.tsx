@@ -10,7 +10,7 @@ import Colors from "@/constants/Colors";
 import { useBLEContext } from "@/util/contextBLE";
 import { useChatContext } from "@/util/contextChat";
 import { useState, useEffect } from "react";
-import { router } from "expo-router";
+import { router, useLocalSearchParams } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 
 const Page = () => {
@@ -20,7 +20,17 @@ const Page = () => {
     connectedDevice,
     clearConfigStatus,
   } = useBLEContext();
-  const { addConfiguredChat, getConfiguredChat } = useChatContext();
+  const {
+    addConfiguredChat,
+    getConfiguredChat,
+    getChatContact,
+    updateContact,
+  } = useChatContext();
+  // Endpoint details from a walorapp://add link
+  const { name: linkedName, mac: linkedMac } = useLocalSearchParams<{
+    name?: string;
+    mac?: string;
+  }>();
   const [deviceName, setDeviceName] = useState("");
   const [macAddress, setMacAddress] = useState("");
   const [isConfiguring, setIsConfiguring] = useState(false);
@@ -32,17 +42,37 @@ const Page = () => {
     // Clear any previous config status
     clearConfigStatus();
 
+    // A link fills in the endpoint it was shared for
+    if (linkedName || linkedMac) {
+      setDeviceName((linkedName ?? "").replace(/[^a-zA-Z0-9_]/g, ""));
+      setMacAddress(
+        (linkedMac ?? "")
+          .replace(/[^a-fA-F0-9]/g, "")
+          .toLowerCase()
+          .substring(0, 8)
+      );
+      return;
+    }
+
     // Check if this device already has a configuration
     if (connectedDevice?.name) {
       const existing = getConfiguredChat(connectedDevice.name);
-      if (existing) {
+      const existingContact = existing && getChatContact(existing.id);
+      if (existing && existingContact) {
         setExistingConfig(existing);
-        setDeviceName(existing.deviceName);
-        setMacAddress(existing.macAddress);
+        setDeviceName(existingContact.deviceName);
+        setMacAddress(existingContact.macAddress);
         setIsEditMode(true);
       }
     }
-  }, [connectedDevice?.name, clearConfigStatus, getConfiguredChat]);
+  }, [
+    connectedDevice?.name,
+    clearConfigStatus,
+    getConfiguredChat,
+    getChatContact,
+    linkedName,
+    linkedMac,
+  ]);
 
   // Monitor configuration status - only when actively configuring
   useEffect(() => {
@@ -59,13 +89,23 @@ const Page = () => {
             {
               text: "OK",
               onPress: async () => {
-                // Add the configured chat to the chat list
-                await addConfiguredChat(deviceName.trim(), macAddress.trim());
-
-                // Generate a chat ID based on the device name and mac
-                const chatId = `${deviceName}_${macAddress}`
-                  .toLowerCase()
-                  .replace(/[^a-z0-9_]/g, "");
+                // An edited endpoint stays the same contact and keeps its
+                // chat, a new one is added to the chat list
+                let chatId: string;
+                const existingContact =
+                  isEditMode && getChatContact(existingConfig.id);
+                if (existingContact) {
+                  await updateContact(existingContact.id, {
+                    deviceName: deviceName.trim(),
+                    macAddress: macAddress.trim(),
+                  });
+                  chatId = existingConfig.id;
+                } else {
+                  chatId = await addConfiguredChat(
+                    deviceName.trim(),
+                    macAddress.trim()
+                  );
+                }
                 router.replace(`/(tabs)/chats/${chatId}`);
               },
             },
@@ -75,7 +115,14 @@ const Page = () => {
         Alert.alert("Configuration Error", configStatus.substring(6));
       }
     }
-  }, [configStatus, deviceName, macAddress, isConfiguring]);
+  }, [
+    configStatus,
+    deviceName,
+    macAddress,
+    isConfiguring,
+    isEditMode,
+    existingConfig,
+  ]);
 
   const handleConfigureEndpoint = async (
     autoName?: string,
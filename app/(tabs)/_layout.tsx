@@ -2,9 +2,12 @@ import Colors from '@/constants/Colors';
 import { Ionicons } from '@expo/vector-icons';
 import { Tabs, useSegments } from 'expo-router';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
+import { useChatContext } from '@/util/contextChat';
 
 const TabsLayout = () => {
   const segments = useSegments();
+  const { configuredChats } = useChatContext();
+  const unreadCount = configuredChats.reduce((total, chat) => total + chat.unreadCount, 0);
 
   return (
     <GestureHandlerRootView style={{ flex: 1 }}>
@@ -27,6 +30,7 @@ const TabsLayout = () => {
               <Ionicons name="chatbubbles" size={size} color={color} />
             ),
             headerShown: false,
+            tabBarBadge: unreadCount > 0 ? unreadCount : undefined,
             tabBarStyle: {
               backgroundColor: Colors.background,
               display: segments[2] === '[id]' ? 'none' : 'flex',
@@ -26,7 +26,7 @@ import {
   IMessage,
 } from "react-native-gifted-chat";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
-import { useLocalSearchParams } from "expo-router";
+import { useFocusEffect, useLocalSearchParams } from "expo-router";
 import * as Location from "expo-location";
 import * as FileSystem from "expo-file-system";
 import * as DocumentPicker from "expo-document-picker";
@@ -34,29 +34,30 @@ import * as DocumentPicker from "expo-document-picker";
 import ChatMessageBox from "@/components/ChatMessageBox";
 import LocationMessage from "@/components/LocationMessage";
 import FileMessage from "@/components/FileMessage";
+import MessageStatusIcon from "@/components/MessageStatusIcon";
+import RecipientStatusList from "@/components/RecipientStatusList";
+import SendProgress from "@/components/SendProgress";
+import TransferProgressBubble from "@/components/TransferProgressBubble";
+import UnverifiedSenderNotice from "@/components/UnverifiedSenderNotice";
 import Colors from "@/constants/Colors";
 import { Ionicons } from "@expo/vector-icons";
+import { storeAttachment, toFileMessageText } from "@/util/attachmentStore";
 import { useBLEContext } from "@/util/contextBLE";
-import { useChatContext } from "@/util/contextChat";
+import { IncomingTransferProgress } from "@/util/useBLE";
+import {
+  ChatMessage,
+  MESSAGE_PAGE_SIZE,
+  useChatContext,
+} from "@/util/contextChat";
+import { getTransferIds } from "@/util/groupDelivery";
+import { MESSAGE_PREFIXES, USER_IDS } from "@/constants/Messages";
 
 // Constants
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
 const MODAL_CLOSE_DELAY = 300; // milliseconds
 const FILE_PICKER_RESET_DELAY = 500; // milliseconds
-
-// Message prefixes
-const MESSAGE_PREFIXES = {
-  FILE_DATA: "FILE_DATA:",
-  FILE: "FILE:",
-  LOCATION: "Location: ",
-} as const;
-
-// User IDs
-const USER_IDS = {
-  SYSTEM: 0,
-  CURRENT: 1,
-  LORA_DEVICE: 2,
-} as const;
+const HIGHLIGHT_DURATION = 2000; // milliseconds
+const SCROLL_RETRY_DELAY = 100; // milliseconds
 
 // UI Constants
 const UI_CONSTANTS = {
@@ -68,20 +69,27 @@ const UI_CONSTANTS = {
   ACTION_BUTTON_BORDER_RADIUS: 12,
 } as const;
 
-// Message patterns
-const MESSAGE_PATTERNS = {
-  LOCATION: /^(-?\d+\.?\d*),\s*(-?\d+\.?\d*)$/,
-  LOCATION_URL: /q=(-?\d+\.?\d*),(-?\d+\.?\d*)/,
-} as const;
-
 interface ChatState {
-  messages: IMessage[];
+  messages: ChatMessage[];
   text: string;
   showActionsModal: boolean;
   isFilePickerActive: boolean;
   replyMessage: IMessage | null;
+  hasEarlierMessages: boolean;
+  isLoadingEarlier: boolean;
+  highlightedMessageId: string | null;
 }
 
+// Messages shown in the chat, including placeholders for incoming transfers
+type DisplayedMessage = ChatMessage & {
+  incomingTransfer?: IncomingTransferProgress;
+};
+
+// The list GiftedChat renders the messages in
+type MessageListRef = NonNullable<
+  React.ComponentProps<typeof GiftedChat>["messageContainerRef"]
+>;
+
 /**
  * Chat page component for handling messaging with BLE/LoRa devices.
  *
@@ -109,29 +117,55 @@ const Page: React.FC = () => {
     showActionsModal: false,
     isFilePickerActive: false,
     replyMessage: null,
+    hasEarlierMessages: false,
+    isLoadingEarlier: false,
+    highlightedMessageId: null,
   });
 
   // Hooks
   const insets = useSafeAreaInsets();
-  const { id } = useLocalSearchParams<{ id: string }>();
+  // A message to scroll to, when opened from a search result
+  const { id, messageId } = useLocalSearchParams<{
+    id: string;
+    messageId?: string;
+  }>();
 
   // Refs for managing component lifecycle and state
   const swipeableRowRef = useRef<Swipeable | null>(null);
-  const lastProcessedLoraMsg = useRef<string>("");
   const autoConfigured = useRef<string | null>(null);
+  // Number of messages loaded, so reloads keep the earlier pages loaded
+  const loadedCount = useRef(MESSAGE_PAGE_SIZE);
+  const messageListRef = useRef<MessageListRef["current"] | null>(
+    null
+  ) as MessageListRef;
+  // The message last scrolled to, so reloads keep the scroll position
+  const scrolledToMessage = useRef<string | null>(null);
 
   // Context hooks
   const {
     connectedDevice,
-    writeToDevice,
-    writeFileToDevice,
-    loraMsg,
     configureEndpoint,
-    chunkedMessages,
-    isReceivingChunkedMessage,
-    chunkedMessageProgress,
+    configuredEndpoint,
+    incomingTransfers,
+    outgoingTransfers,
+    cancelOutgoingTransfer,
   } = useBLEContext();
-  const { getChatMessages, saveChatMessages } = useChatContext();
+  const {
+    configuredChats,
+    contacts,
+    getChatContact,
+    getChatMembers,
+    getChatMessages,
+    getChatMessagePosition,
+    addChatMessages,
+    updateChatMessage,
+    messageRevisions,
+    enqueueOutboundMessage,
+    markChatRead,
+  } = useChatContext();
+  const messageRevision = id ? messageRevisions[id] ?? 0 : 0;
+  const contact = id ? getChatContact(id) : undefined;
+  const group = configuredChats.find((chat) => chat.id === id)?.group;
 
   const createInitialMessage = useCallback(
     (): IMessage => ({
@@ -151,27 +185,35 @@ const Page: React.FC = () => {
     setChatState((prev) => ({ ...prev, ...updates }));
   }, []);
 
-  const updateMessages = useCallback(
-    (updater: (messages: IMessage[]) => IMessage[]) => {
-      setChatState((prev) => ({ ...prev, messages: updater(prev.messages) }));
-    },
-    []
-  );
-
-  // Load messages on component mount
+  // Load the newest messages on mount and whenever the stored messages change
   useEffect(() => {
     const loadMessages = async (): Promise<void> => {
       if (!id) return;
 
       try {
-        const savedMessages = await getChatMessages(id);
+        // Load as far back as the message to scroll to, with a page of
+        // earlier messages around it
+        if (messageId && scrolledToMessage.current !== messageId) {
+          const position = await getChatMessagePosition(id, messageId);
+          if (position !== null) {
+            loadedCount.current = Math.max(
+              loadedCount.current,
+              position + MESSAGE_PAGE_SIZE
+            );
+          }
+        }
+
+        const limit = loadedCount.current;
+        const savedMessages = await getChatMessages(id, 0, limit);
         if (savedMessages.length > 0) {
-          updateChatState({ messages: savedMessages });
+          updateChatState({
+            messages: savedMessages,
+            hasEarlierMessages: savedMessages.length === limit,
+          });
         } else {
-          // Set initial system message if no messages exist
-          const initialMessages = [createInitialMessage()];
-          updateChatState({ messages: initialMessages });
-          await saveChatMessages(id, initialMessages);
+          // Set initial system message if no messages exist, which reloads
+          // the chat once stored
+          await addChatMessages(id, [createInitialMessage()]);
         }
       } catch (error) {
         console.error("Error loading messages:", error);
@@ -181,195 +223,239 @@ const Page: React.FC = () => {
     loadMessages();
   }, [
     id,
+    messageId,
+    messageRevision,
     getChatMessages,
-    saveChatMessages,
+    getChatMessagePosition,
+    addChatMessages,
     updateChatState,
     createInitialMessage,
   ]);
 
-  // Process incoming LoRa messages
-  const processLoRaMessage = useCallback((loraMsg: string): string => {
-    // Check if the message contains location coordinates
-    const locationMatch = loraMsg.match(MESSAGE_PATTERNS.LOCATION);
-    if (locationMatch) {
-      const [, lat, lng] = locationMatch;
-      return `Received Location: https://maps.google.com/?q=${lat},${lng}`;
-    }
+  // Load the page of messages before the oldest loaded one
+  const loadEarlierMessages = useCallback(async (): Promise<void> => {
+    if (!id || chatState.isLoadingEarlier) return;
 
-    // Check for different message types
-    if (loraMsg === "Image shared") {
-      return "An image was shared via LoRa";
-    }
-
-    if (loraMsg.startsWith("File received:")) {
-      return loraMsg; // Keep file notifications as is
-    }
-
-    if (loraMsg.startsWith(MESSAGE_PREFIXES.FILE)) {
-      return loraMsg; // Keep file content messages for renderBubble to handle
-    }
-
-    return loraMsg; // Return original message for regular text
-  }, []);
-
-  // Add new message when loraMsg changes and is not empty
-  useEffect(() => {
-    if (!loraMsg?.trim() || loraMsg === lastProcessedLoraMsg.current) {
-      return;
+    updateChatState({ isLoadingEarlier: true });
+    try {
+      const earlierMessages = await getChatMessages(
+        id,
+        chatState.messages.length
+      );
+      // Messages stored meanwhile shift the pages, so some may be loaded already
+      const loadedIds = new Set(chatState.messages.map(({ _id }) => _id));
+      const messages = [
+        ...chatState.messages,
+        ...earlierMessages.filter(({ _id }) => !loadedIds.has(_id)),
+      ];
+
+      loadedCount.current = messages.length;
+      updateChatState({
+        messages,
+        hasEarlierMessages: earlierMessages.length === MESSAGE_PAGE_SIZE,
+        isLoadingEarlier: false,
+      });
+    } catch (error) {
+      console.error("Error loading earlier messages:", error);
+      updateChatState({ isLoadingEarlier: false });
     }
+  }, [
+    id,
+    chatState.messages,
+    chatState.isLoadingEarlier,
+    getChatMessages,
+    updateChatState,
+  ]);
 
-    lastProcessedLoraMsg.current = loraMsg;
-    const messageText = processLoRaMessage(loraMsg);
-
-    const newMessage: IMessage = {
-      _id: Math.random().toString(36).substring(7),
-      text: messageText,
-      createdAt: new Date(),
-      user: {
-        _id: USER_IDS.LORA_DEVICE,
-        name: "LoRa Device",
-      },
-    };
-
-    updateMessages((previousMessages) => {
-      const updatedMessages = GiftedChat.append(previousMessages, [newMessage]);
-
-      // Save messages to storage
+  // Messages received while the chat is on screen are read right away
+  useFocusEffect(
+    useCallback(() => {
       if (id) {
-        saveChatMessages(id, updatedMessages).catch(console.error);
+        markChatRead(id).catch(console.error);
       }
-
-      return updatedMessages;
-    });
-  }, [loraMsg, id, processLoRaMessage, updateMessages, saveChatMessages]);
+    }, [id, messageRevision, markChatRead])
+  );
 
   // Auto-configure endpoint when entering chat
   useEffect(() => {
     const autoConfigureEndpoint = async () => {
-      if (
-        id &&
-        connectedDevice &&
-        id.includes("_") &&
-        autoConfigured.current !== id
-      ) {
+      if (id && contact && connectedDevice && autoConfigured.current !== id) {
         try {
-          // Extract name and MAC from chat ID format: "pietro_da5a17b4"
-          const parts = id.split("_");
-          if (parts.length >= 2) {
-            const name = parts[0];
-            const macAddress = parts[1];
-
-            // Only configure if we have valid format (8-character MAC)
-            if (macAddress.length === 8 && name.length > 0) {
-              try {
-                await configureEndpoint(connectedDevice, name, macAddress);
-                autoConfigured.current = id; // Mark this chat as auto-configured
-              } catch (error) {
-                console.log("Auto-configuration failed:", error);
-              }
-            }
-          }
+          await configureEndpoint(
+            connectedDevice,
+            contact.deviceName.toLowerCase(),
+            contact.macAddress.toLowerCase()
+          );
+          autoConfigured.current = id; // Mark this chat as auto-configured
         } catch (error) {
-          console.log("Error in auto-configuration:", error);
+          console.log("Auto-configuration failed:", error);
         }
       }
     };
 
     autoConfigureEndpoint();
-  }, [id, connectedDevice, configureEndpoint]);
-
-  // Helper function to parse file message
-  const parseFileMessage = useCallback((messageText: string) => {
-    const parts = messageText.split(":");
-
-    if (parts.length < 3) {
-      throw new Error(
-        `Invalid file message format: expected at least 3 parts, got ${parts.length}`
-      );
-    }
-
-    const filename = parts[1];
-    const base64Data = parts.slice(2).join(":");
-
-    if (!filename) {
-      throw new Error("Filename is missing from file message");
-    }
-    if (!base64Data) {
-      throw new Error("Base64 data is missing from file message");
-    }
+  }, [id, contact, connectedDevice, configureEndpoint]);
+
+  // Update the delivery fields of one message and persist the change
+  const updateMessageStatus = useCallback(
+    (
+      messageId: IMessage["_id"],
+      updates: Pick<ChatMessage, "status" | "transferId">
+    ) => {
+      if (!id) return;
 
-    return { filename, base64Data };
-  }, []);
+      updateChatMessage(id, messageId, (message) => ({
+        ...message,
+        ...updates,
+      })).catch(console.error);
+    },
+    [id, updateChatMessage]
+  );
 
-  // Handle sending messages
+  // Handle sending messages - the outbound queue transmits them in order as
+  // soon as a bridge is connected
   const onSend = useCallback(
     async (messages: IMessage[] = []): Promise<void> => {
-      if (messages.length === 0) return;
+      if (messages.length === 0 || !id) return;
+
+      // Group messages keep the members they were sent to
+      const recipients = group
+        ? Object.fromEntries(
+            group.memberIds.map((memberId) => [
+              memberId,
+              { status: "queued" as const },
+            ])
+          )
+        : undefined;
+      const outgoingMessages: ChatMessage[] = messages.map((message) => ({
+        ...message,
+        status: "queued",
+        ...(recipients && { recipients }),
+      }));
 
       // Update UI first
-      updateMessages((previousMessages) => {
-        const updatedMessages = GiftedChat.append(previousMessages, messages);
-
-        // Save to storage
-        if (id) {
-          saveChatMessages(id, updatedMessages).catch(console.error);
-        }
-
-        return updatedMessages;
-      });
+      setChatState((prev) => ({
+        ...prev,
+        messages: GiftedChat.append(prev.messages, outgoingMessages),
+      }));
 
       // Clear input text
       updateChatState({ text: "" });
 
-      if (!connectedDevice) return;
-
-      const message = messages[0];
+      // The outbound queue reads the messages from the store
+      await addChatMessages(id, outgoingMessages);
 
-      try {
-        // Handle file messages - now using chunked protocol via message characteristic
-        if (message.text.startsWith(MESSAGE_PREFIXES.FILE_DATA)) {
-          const { filename, base64Data } = parseFileMessage(message.text);
+      // GiftedChat passes new messages newest first
+      for (const message of [...outgoingMessages].reverse()) {
+        await enqueueOutboundMessage(id, message._id);
+      }
+    },
+    [id, group, updateChatState, addChatMessages, enqueueOutboundMessage]
+  );
 
-          console.log(`Sending file via chunked protocol: ${filename}`);
+  // Offer to send a failed message again
+  const confirmRetry = useCallback(
+    (message: ChatMessage) => {
+      if (!id) return;
 
-          // Send via writeFileToDevice which uses "file" message type
-          await writeFileToDevice(connectedDevice, filename, base64Data);
-          console.log("File sent successfully via chunked protocol");
-        }
-        // Handle location messages
-        else if (
-          message.text.includes(
-            `${MESSAGE_PREFIXES.LOCATION}https://maps.google.com/?q=`
-          )
-        ) {
-          const coordsMatch = message.text.match(MESSAGE_PATTERNS.LOCATION_URL);
-          if (coordsMatch) {
-            const [, lat, lng] = coordsMatch;
-            await writeToDevice(connectedDevice, `${lat},${lng}`);
-          }
-        }
-        // Handle regular text messages
-        else {
-          await writeToDevice(connectedDevice, message.text);
-        }
-      } catch (error) {
-        if (
-          error instanceof Error &&
-          !error.message.includes("Device disconnected")
-        ) {
-          console.error("Failed to send message:", error);
-        }
-      }
+      Alert.alert("Message Not Sent", "This message could not be sent.", [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Retry",
+          onPress: () => {
+            updateMessageStatus(message._id, { status: "queued" });
+            enqueueOutboundMessage(id, message._id);
+          },
+        },
+      ]);
     },
-    [
-      connectedDevice,
-      writeToDevice,
-      id,
-      saveChatMessages,
-      updateMessages,
-      updateChatState,
-      parseFileMessage,
-    ]
+    [id, updateMessageStatus, enqueueOutboundMessage]
+  );
+
+  // Incoming transfers from this chat's nodes. Without a source address they
+  // come from the endpoint the bridge is configured for.
+  const chatTransfers = useMemo(() => {
+    const macAddresses = id
+      ? getChatMembers(id).map(({ macAddress }) => macAddress.toLowerCase())
+      : [];
+
+    return incomingTransfers.filter((transfer) =>
+      macAddresses.includes(
+        transfer.source ||
+          configuredEndpoint?.macAddress.toLowerCase() ||
+          ""
+      )
+    );
+  }, [id, incomingTransfers, contacts, group, configuredEndpoint]);
+
+  // Show incoming transfers as placeholder bubbles until they complete and
+  // arrive as regular messages
+  const displayedMessages = useMemo<DisplayedMessage[]>(
+    () => [
+      ...chatTransfers
+        .map((transfer) => ({
+          _id: `incoming_${transfer.messageId}`,
+          text: "",
+          createdAt: new Date(transfer.startedAt),
+          user: {
+            _id: USER_IDS.LORA_DEVICE,
+          },
+          incomingTransfer: transfer,
+        }))
+        .reverse(),
+      ...chatState.messages,
+    ],
+    [chatTransfers, chatState.messages]
+  );
+
+  // Centers the message at this index of the displayed messages
+  const scrollToIndex = useCallback((index: number) => {
+    messageListRef.current?.scrollToIndex({ index, viewPosition: 0.5 });
+  }, []);
+
+  // Scroll to the message to show once it is loaded and highlight it
+  useEffect(() => {
+    if (!messageId || scrolledToMessage.current === messageId) return;
+
+    const index = displayedMessages.findIndex(
+      ({ _id }) => String(_id) === messageId
+    );
+    if (index === -1) return;
+
+    scrolledToMessage.current = messageId;
+    scrollToIndex(index);
+    updateChatState({ highlightedMessageId: messageId });
+  }, [messageId, displayedMessages, scrollToIndex, updateChatState]);
+
+  useEffect(() => {
+    if (!chatState.highlightedMessageId) return;
+
+    const timeout = setTimeout(
+      () => updateChatState({ highlightedMessageId: null }),
+      HIGHLIGHT_DURATION
+    );
+    return () => clearTimeout(timeout);
+  }, [chatState.highlightedMessageId, updateChatState]);
+
+  // Messages far from the newest are not laid out yet, so scroll close to
+  // them by estimate first and then to the message itself
+  const listViewProps = useMemo(
+    () => ({
+      onScrollToIndexFailed: ({
+        index,
+        averageItemLength,
+      }: {
+        index: number;
+        averageItemLength: number;
+      }) => {
+        messageListRef.current?.scrollToOffset({
+          offset: index * averageItemLength,
+          animated: false,
+        });
+        setTimeout(() => scrollToIndex(index), SCROLL_RETRY_DELAY);
+      },
+    }),
+    [scrollToIndex]
   );
 
   const resetFilePickerState = useCallback(() => {
@@ -514,11 +600,6 @@ const Page: React.FC = () => {
 
   const handleFileSend = async (file: any) => {
     try {
-      if (!connectedDevice) {
-        Alert.alert("No Device", "Please connect to a device first.");
-        return;
-      }
-
       // Check if file exists and get info
       const fileInfo = await FileSystem.getInfoAsync(file.uri);
 
@@ -571,10 +652,11 @@ const Page: React.FC = () => {
       }
 
       // Create a file message that will go through onSend
-      // Use a special format to embed file data in the message
-      const fileMessage: IMessage = {
+      // The message only references the file kept in the attachment store
+      const fileMessage: ChatMessage = {
         _id: Math.random().toString(36).substring(7),
-        text: `${MESSAGE_PREFIXES.FILE_DATA}${file.name}:${base64Data}`,
+        text: toFileMessageText(file.name),
+        attachment: await storeAttachment(file.name, base64Data),
         createdAt: new Date(),
         user: {
           _id: USER_IDS.CURRENT,
@@ -617,23 +699,68 @@ const Page: React.FC = () => {
 
   const renderBubble = useCallback(
     (props: React.ComponentProps<typeof Bubble>) => {
-      const { currentMessage } = props;
+      const currentMessage: DisplayedMessage = props.currentMessage;
+      const isHighlighted =
+        String(currentMessage._id) === chatState.highlightedMessageId;
 
-      // Check if this is a file message (both sent and received)
-      if (
-        currentMessage.text.startsWith(MESSAGE_PREFIXES.FILE_DATA) ||
-        currentMessage.text.startsWith(MESSAGE_PREFIXES.FILE)
-      ) {
-        // Extract filename and base64data from FILE_DATA:filename:base64data or FILE_CONTENT:filename:base64data
-        // Split only on the first two colons to preserve content that may contain colons
-        const parts = currentMessage.text.split(":");
-        const filename = parts.length >= 2 ? parts[1] : "Unknown file";
-        // Join all remaining parts (from index 2 onwards) to preserve content with colons
-        const base64Data = parts.length >= 3 ? parts.slice(2).join(":") : "";
+      // Incoming transfer that is still being received
+      if (currentMessage.incomingTransfer) {
+        return (
+          <TransferProgressBubble transfer={currentMessage.incomingTransfer} />
+        );
+      }
+
+      const statusIcon = (
+        <MessageStatusIcon
+          status={currentMessage.status}
+          onRetry={() => confirmRetry(currentMessage)}
+        />
+      );
 
+      // Progress of a message whose chunks are still being written
+      const outgoingTransfer =
+        currentMessage.status === "sending"
+          ? outgoingTransfers.find((transfer) =>
+              getTransferIds(currentMessage).includes(transfer.messageId)
+            )
+          : undefined;
+      const sendProgress = outgoingTransfer && (
+        <SendProgress
+          transfer={outgoingTransfer}
+          onCancel={() => cancelOutgoingTransfer(outgoingTransfer.messageId)}
+        />
+      );
+      const unverifiedNotice = currentMessage.unverified && (
+        <UnverifiedSenderNotice />
+      );
+      // Member a group message came from
+      const senderName = currentMessage.senderId && (
+        <Text style={styles.senderName}>
+          {contacts.find(({ id }) => id === currentMessage.senderId)?.name ??
+            currentMessage.user.name}
+        </Text>
+      );
+      const recipientStatus = currentMessage.recipients && (
+        <RecipientStatusList
+          recipients={currentMessage.recipients}
+          contacts={contacts}
+        />
+      );
+
+      // Check if this is a file message (both sent and received)
+      if (currentMessage.attachment) {
         return (
-          <View style={{ margin: 4 }}>
-            <FileMessage filename={filename} base64Data={base64Data} />
+          <View
+            style={[
+              styles.customBubble,
+              isHighlighted && styles.highlightedBubble,
+            ]}
+          >
+            {senderName}
+            {unverifiedNotice}
+            <FileMessage attachment={currentMessage.attachment} />
+            {recipientStatus}
+            {sendProgress ?? statusIcon}
           </View>
         );
       }
@@ -650,11 +777,20 @@ const Page: React.FC = () => {
         if (coordsMatch) {
           const [, lat, lng] = coordsMatch;
           return (
-            <View style={{ margin: 4 }}>
+            <View
+              style={[
+                styles.customBubble,
+                isHighlighted && styles.highlightedBubble,
+              ]}
+            >
+              {senderName}
+              {unverifiedNotice}
               <LocationMessage
                 latitude={parseFloat(lat)}
                 longitude={parseFloat(lng)}
               />
+              {recipientStatus}
+              {sendProgress ?? statusIcon}
             </View>
           );
         }
@@ -664,6 +800,14 @@ const Page: React.FC = () => {
       return (
         <Bubble
           {...props}
+          renderTicks={() => statusIcon}
+          renderCustomView={() => (
+            <>
+              {senderName}
+              {sendProgress ?? unverifiedNotice}
+              {recipientStatus}
+            </>
+          )}
           textStyle={{
             right: {
               color: "#000",
@@ -671,16 +815,22 @@ const Page: React.FC = () => {
           }}
           wrapperStyle={{
             left: {
-              backgroundColor: "#fff",
+              backgroundColor: isHighlighted ? Colors.yellow : "#fff",
             },
             right: {
-              backgroundColor: Colors.lightGreen,
+              backgroundColor: isHighlighted ? Colors.yellow : Colors.lightGreen,
             },
           }}
         />
       );
     },
-    []
+    [
+      confirmRetry,
+      contacts,
+      outgoingTransfers,
+      cancelOutgoingTransfer,
+      chatState.highlightedMessageId,
+    ]
   );
 
   const updateRowRef = useCallback(
@@ -721,15 +871,14 @@ const Page: React.FC = () => {
       }}
     >
       <KeyboardAvoidingView style={{ flex: 1 }}>
-        {/* Chunked Message Progress Indicator */}
-        {isReceivingChunkedMessage && (
-          <View style={styles.progressContainer}>
-            <Text style={styles.progressText}>{chunkedMessageProgress}</Text>
-          </View>
-        )}
-
         <GiftedChat
-          messages={chatState.messages}
+          messages={displayedMessages}
+          messageContainerRef={messageListRef}
+          listViewProps={listViewProps}
+          loadEarlier={chatState.hasEarlierMessages}
+          isLoadingEarlier={chatState.isLoadingEarlier}
+          onLoadEarlier={loadEarlierMessages}
+          infiniteScroll
           onSend={(messages: IMessage[]) => onSend(messages)}
           onInputTextChanged={(text: string) => updateChatState({ text })}
           timeTextStyle={{
@@ -845,20 +994,23 @@ const Page: React.FC = () => {
 const { width: screenWidth } = Dimensions.get("window");
 
 const styles = StyleSheet.create({
-  // Progress indicator styles
-  progressContainer: {
-    backgroundColor: "rgba(0, 0, 0, 0.8)",
-    paddingVertical: 8,
-    paddingHorizontal: 16,
-    marginHorizontal: 20,
-    marginTop: 10,
-    borderRadius: 20,
-    alignItems: "center",
+  // File and location bubbles, with the status icon below them
+  customBubble: {
+    margin: 4,
+    alignItems: "flex-end",
+    gap: 2,
   },
-  progressText: {
-    color: "#fff",
+  senderName: {
+    marginHorizontal: 10,
+    marginTop: 5,
     fontSize: 12,
-    fontFamily: "monospace",
+    fontWeight: "600",
+    color: Colors.primary,
+  },
+  // Message opened from a search result
+  highlightedBubble: {
+    borderRadius: 12,
+    backgroundColor: Colors.yellow,
   },
 
   // Input styles
@@ -2,21 +2,25 @@ import Colors from "@/constants/Colors";
 import { Ionicons } from "@expo/vector-icons";
 import { Link, Stack, useLocalSearchParams, usePathname, router } from "expo-router";
 import { TouchableOpacity, View, Text, Image, StyleSheet, Alert } from "react-native";
-import { deviceName } from "expo-device";
+import ContactAvatar from "@/components/ContactAvatar";
+import GroupAvatar from "@/components/GroupAvatar";
 import { useChatContext } from "@/util/contextChat";
 import { useBLEContext } from "@/util/contextBLE";
-import { useEffect, useState } from "react";
+
+// Chats opened by a link have the chat list beneath them
+export const unstable_settings = {
+  initialRouteName: "index",
+};
 
 const Layout = () => {
   const { id } = useLocalSearchParams();
   const pathname = usePathname();
-  const { configuredChats } = useChatContext();
-  const { connectedDevice } = useBLEContext();
-  const [displayName, setDisplayName] = useState<string>("Loading...");
+  const { configuredChats, contacts, getChatContact } = useChatContext();
+  const { connectedDevice, isReconnecting } = useBLEContext();
 
   // Extract chat ID from pathname as a more reliable method
   const extractChatIdFromPath = () => {
-    // Pathname should be something like "/(tabs)/chats/pietro_da5a17b4"
+    // Pathname should be something like "/(tabs)/chats/<chat id>"
     const pathParts = pathname.split("/");
     const chatsIndex = pathParts.findIndex((part) => part === "chats");
     if (chatsIndex !== -1 && pathParts[chatsIndex + 1]) {
@@ -26,34 +30,24 @@ const Layout = () => {
   };
 
   const chatId = (id as string) || extractChatIdFromPath();
+  const contact = chatId ? getChatContact(chatId) : undefined;
+  const group = configuredChats.find((chat) => chat.id === chatId)?.group;
+  const isEncrypted = !!contact?.encryptionKey;
 
-  // Immediate check when component mounts or data changes
-  useEffect(() => {
-    if (chatId) {
-      const currentChat = configuredChats.find((chat) => chat.id === chatId);
+  const getEndpointDisplayName = () => {
+    return group?.name ?? contact?.name ?? "Device";
+  };
 
-      if (currentChat) {
-        setDisplayName(currentChat.from);
-      } else {
-        // Fallback: Extract from chat ID
-        if (chatId.includes("_")) {
-          const parts = chatId.split("_");
-          if (parts.length > 0) {
-            const fallbackName =
-              parts[0].charAt(0).toUpperCase() + parts[0].slice(1);
-            setDisplayName(fallbackName);
-          }
-        } else {
-          setDisplayName(deviceName || "Device");
-        }
-      }
+  // Groups are made of existing contacts
+  const handleNewGroupPress = () => {
+    if (contacts.length < 2) {
+      Alert.alert(
+        "Not Enough Contacts",
+        "A group chat needs at least two contacts. Start chats with its members first."
+      );
     } else {
-      setDisplayName("Device");
+      router.push("/(modals)/group");
     }
-  }, [chatId, configuredChats]);
-
-  const getEndpointDisplayName = () => {
-    return displayName;
   };
 
   const handleNewChatPress = () => {
@@ -108,10 +102,14 @@ const Layout = () => {
                     />
                   </TouchableOpacity>
                 </Link>
-                {connectedDevice && (
+                {connectedDevice ? (
                   <Text style={styles.connectionStatus}>
                     {connectedDevice.localName || connectedDevice.name || "Connected"}
                   </Text>
+                ) : (
+                  isReconnecting && (
+                    <Text style={styles.reconnectingStatus}>Reconnecting…</Text>
+                  )
                 )}
               </View>
               <View style={styles.container}>
@@ -120,13 +118,30 @@ const Layout = () => {
                   style={styles.logo}
                 />
               </View>
-              <TouchableOpacity onPress={handleNewChatPress}>
-                <Ionicons
-                  name="add-circle"
-                  color={Colors.primary}
-                  size={30}
-                />
-              </TouchableOpacity>
+              <View style={styles.headerActions}>
+                <Link href="/(tabs)/chats/search" asChild>
+                  <TouchableOpacity accessibilityLabel="Search messages">
+                    <Ionicons name="search" color={Colors.primary} size={26} />
+                  </TouchableOpacity>
+                </Link>
+                <TouchableOpacity
+                  onPress={handleNewGroupPress}
+                  accessibilityLabel="New group chat"
+                >
+                  <Ionicons
+                    name="people-outline"
+                    color={Colors.primary}
+                    size={28}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={handleNewChatPress}>
+                  <Ionicons
+                    name="add-circle"
+                    color={Colors.primary}
+                    size={30}
+                  />
+                </TouchableOpacity>
+              </View>
             </View>
           ),
           headerStyle: {
@@ -135,6 +150,17 @@ const Layout = () => {
         }}
       />
 
+      <Stack.Screen
+        name="search"
+        options={{
+          title: "Search",
+          headerBackTitle: "Chats",
+          headerStyle: {
+            backgroundColor: "#fff",
+          },
+        }}
+      />
+
       <Stack.Screen
         name="[id]"
         options={{
@@ -150,29 +176,46 @@ const Layout = () => {
               justifyContent: "center",
               }}
             >
-              <View
-              style={{
-                width: 40,
-                height: 40,
-                borderRadius: 20,
-                backgroundColor: Colors.primary,
-                justifyContent: "center",
-                alignItems: "center",
-              }}
+              <TouchableOpacity
+                style={styles.contactButton}
+                onPress={() =>
+                  chatId &&
+                  router.push({
+                    pathname: group ? "/(modals)/group" : "/(modals)/contact",
+                    params: { chatId },
+                  })
+                }
+                accessibilityLabel={group ? "Group members" : "Contact details"}
               >
-              <Text
-                style={{
-                color: "white",
-                fontSize: 18,
-                fontWeight: "bold",
-                }}
-              >
-                {getEndpointDisplayName()?.charAt(0)?.toUpperCase() || "D"}
-              </Text>
-              </View>
-              <Text style={{ fontSize: 16, fontWeight: "500" }}>
-              {getEndpointDisplayName()}
-              </Text>
+                {group ? (
+                  <GroupAvatar size={40} />
+                ) : (
+                  <ContactAvatar contact={contact} size={40} />
+                )}
+                <Text style={{ fontSize: 16, fontWeight: "500" }}>
+                {getEndpointDisplayName()}
+                </Text>
+              </TouchableOpacity>
+              {!group && (
+                <TouchableOpacity
+                  onPress={() =>
+                    chatId &&
+                    router.push({
+                      pathname: "/(modals)/encryption",
+                      params: { chatId },
+                    })
+                  }
+                  accessibilityLabel={
+                    isEncrypted ? "Encryption key" : "Set up encryption"
+                  }
+                >
+                  <Ionicons
+                    name={isEncrypted ? "lock-closed" : "lock-open-outline"}
+                    size={16}
+                    color={isEncrypted ? Colors.primary : Colors.gray}
+                  />
+                </TouchableOpacity>
+              )}
             </View>
           ),
           headerRight: () => (
@@ -186,10 +229,16 @@ const Layout = () => {
                   />
                 </TouchableOpacity>
               </Link>
-              {connectedDevice && (
+              {connectedDevice ? (
                 <Text style={styles.connectionStatusSmall}>
                   {connectedDevice.localName || connectedDevice.name || "Connected"}
                 </Text>
+              ) : (
+                isReconnecting && (
+                  <Text style={styles.reconnectingStatusSmall}>
+                    Reconnecting…
+                  </Text>
+                )
               )}
             </View>
           ),
@@ -217,6 +266,16 @@ const styles = StyleSheet.create({
     alignItems: "center",
     minWidth: 60,
   },
+  contactButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  headerActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
   rightSection: {
     alignItems: "center",
     minWidth: 60,
@@ -235,6 +294,20 @@ const styles = StyleSheet.create({
     textAlign: "center",
     fontWeight: "500",
   },
+  reconnectingStatus: {
+    fontSize: 10,
+    color: Colors.gray,
+    marginTop: 2,
+    textAlign: "center",
+    fontWeight: "500",
+  },
+  reconnectingStatusSmall: {
+    fontSize: 8,
+    color: Colors.gray,
+    marginTop: 1,
+    textAlign: "center",
+    fontWeight: "500",
+  },
 });
 
 export default Layout;
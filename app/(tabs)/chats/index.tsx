@@ -1,12 +1,27 @@
 import { useEffect, useRef } from "react";
-import { View, FlatList, Text, Animated } from "react-native";
+import { View, FlatList, Text, Animated, Alert } from "react-native";
 import ChatRow from "@/components/ChatRow";
+import UnknownSenderRow from "@/components/UnknownSenderRow";
 import { defaultStyles } from "@/constants/Styles";
-import { useChatContext } from "@/util/contextChat";
+import { shareChatJson, shareChatTranscript } from "@/util/chatBackup";
+import {
+  ConfiguredChat,
+  Contact,
+  useChatContext,
+} from "@/util/contextChat";
 import Ionicons from "@expo/vector-icons/build/Ionicons";
 
 const Page = () => {
-  const { configuredChats, removeConfiguredChat } = useChatContext();
+  const {
+    configuredChats,
+    contacts,
+    removeConfiguredChat,
+    getChatHistory,
+    getChatMembers,
+    unknownSenders,
+    acceptUnknownSender,
+    ignoreUnknownSender,
+  } = useChatContext();
 
   // Animation for empty state
   const animatedValue = useRef(new Animated.Value(0)).current;
@@ -37,7 +52,52 @@ const Page = () => {
     await removeConfiguredChat(chatId);
   };
 
-  if (allChats.length === 0) {
+  const handleAcceptSender = async (address: string) => {
+    try {
+      await acceptUnknownSender(address);
+    } catch (error) {
+      console.error("Failed to accept sender:", error);
+      Alert.alert("Accept Failed", "The chat could not be created.");
+    }
+  };
+
+  const getContact = (chat: ConfiguredChat) =>
+    contacts.find(({ id }) => id === chat.contactId);
+
+  const exportChat = async (
+    chat: ConfiguredChat,
+    members: Contact[],
+    share: typeof shareChatTranscript
+  ) => {
+    try {
+      await share(chat, members, await getChatHistory(chat.id));
+    } catch (error) {
+      console.error("Failed to export chat:", error);
+      Alert.alert("Export Failed", "The chat could not be exported.");
+    }
+  };
+
+  const handleExportChat = (chat: ConfiguredChat) => {
+    const members = getChatMembers(chat.id);
+    if (members.length === 0) {
+      return;
+    }
+
+    const name = chat.group?.name ?? members[0].name;
+    Alert.alert("Export Chat", `Export the chat with ${name} as`, [
+      {
+        text: "Transcript",
+        onPress: () => exportChat(chat, members, shareChatTranscript),
+      },
+      {
+        text: "JSON",
+        onPress: () => exportChat(chat, members, shareChatJson),
+      },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
+  if (allChats.length === 0 && unknownSenders.length === 0) {
     return (
       <View
         style={{
@@ -91,8 +151,25 @@ const Page = () => {
       contentContainerStyle={{ backgroundColor: "#fff" }}
       style={{ flex: 1 }}
       data={allChats}
+      ListHeaderComponent={
+        <>
+          {unknownSenders.map((sender) => (
+            <UnknownSenderRow
+              key={sender.address}
+              sender={sender}
+              onAccept={() => handleAcceptSender(sender.address)}
+              onIgnore={() => ignoreUnknownSender(sender.address)}
+            />
+          ))}
+        </>
+      }
       renderItem={({ item }) => (
-        <ChatRow {...item} onArchive={() => handleArchiveChat(item.id)} />
+        <ChatRow
+          {...item}
+          contact={getContact(item)}
+          onArchive={() => handleArchiveChat(item.id)}
+          onMore={() => handleExportChat(item)}
+        />
       )}
       keyExtractor={(item) => item.id.toString()}
       ItemSeparatorComponent={() => (
@@ -0,0 +1,357 @@
+import { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  FlatList,
+  ScrollView,
+  StyleSheet,
+  TouchableHighlight,
+  TouchableOpacity,
+} from "react-native";
+import { router } from "expo-router";
+import { format } from "date-fns";
+import { Ionicons } from "@expo/vector-icons";
+
+import Colors from "@/constants/Colors";
+import { defaultStyles } from "@/constants/Styles";
+import { USER_IDS } from "@/constants/Messages";
+import {
+  MessageSearch,
+  MessageSearchResult,
+  useChatContext,
+} from "@/util/contextChat";
+
+// Typing pause before the search runs
+const SEARCH_DELAY = 250; // milliseconds
+
+const SENDER_FILTERS: { label: string; value: MessageSearch["sender"] }[] = [
+  { label: "Anyone", value: undefined },
+  { label: "Sent", value: "sent" },
+  { label: "Received", value: "received" },
+];
+
+const KIND_FILTERS: { label: string; value: MessageSearch["kind"] }[] = [
+  { label: "All", value: undefined },
+  { label: "Text", value: "text" },
+  { label: "Files", value: "file" },
+  { label: "Locations", value: "location" },
+];
+
+// What a result shows of its message
+const getResultDisplay = ({ message }: MessageSearchResult) => {
+  if (message.attachment) {
+    return { icon: "attach" as const, text: message.attachment.name };
+  }
+  if (message.text.includes("https://maps.google.com/?q=")) {
+    return { icon: "location" as const, text: "Location" };
+  }
+  return { icon: null, text: message.text };
+};
+
+// Chips of one filter, scrolled sideways when there can be many of them
+const FilterChips = <T,>({
+  filters,
+  selected,
+  onSelect,
+  horizontal = false,
+}: {
+  filters: { key?: string; label: string; value: T }[];
+  selected: T;
+  onSelect: (value: T) => void;
+  horizontal?: boolean;
+}) => {
+  const chips = filters.map(({ key, label, value }) => (
+    <TouchableOpacity
+      key={key ?? label}
+      style={[styles.chip, value === selected && styles.selectedChip]}
+      onPress={() => onSelect(value)}
+      accessibilityState={{ selected: value === selected }}
+    >
+      <Text
+        style={[
+          styles.chipText,
+          value === selected && styles.selectedChipText,
+        ]}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  ));
+
+  return horizontal ? (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.scrolledFilters}
+      contentContainerStyle={styles.scrolledFiltersContent}
+      keyboardShouldPersistTaps="handled"
+    >
+      {chips}
+    </ScrollView>
+  ) : (
+    <View style={styles.filters}>{chips}</View>
+  );
+};
+
+const Page = () => {
+  const {
+    contacts,
+    configuredChats,
+    getChatContact,
+    searchMessages,
+    messageRevisions,
+  } = useChatContext();
+  const [query, setQuery] = useState("");
+  const [sender, setSender] = useState<MessageSearch["sender"]>();
+  const [contactId, setContactId] = useState<string>();
+  const [kind, setKind] = useState<MessageSearch["kind"]>();
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [hasSearched, setHasSearched] = useState(false);
+
+  const isSearching =
+    query.trim() !== "" || !!sender || !!contactId || !!kind;
+
+  const contactFilters = [
+    { label: "Any contact", value: undefined },
+    ...[...contacts]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(({ id, name }) => ({ key: id, label: name, value: id })),
+  ];
+
+  // Messages from a contact are never sent ones, so the filters exclude
+  // each other
+  const selectSender = (value: MessageSearch["sender"]) => {
+    setSender(value);
+    if (value === "sent") {
+      setContactId(undefined);
+    }
+  };
+
+  const selectContact = (value: string | undefined) => {
+    setContactId(value);
+    if (value && sender === "sent") {
+      setSender(undefined);
+    }
+  };
+
+  // Search again when the filters change or new messages are stored
+  useEffect(() => {
+    if (!isSearching) {
+      setResults([]);
+      setHasSearched(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      const found = await searchMessages({
+        query,
+        sender,
+        contactId,
+        kind,
+      });
+      if (!cancelled) {
+        setResults(found);
+        setHasSearched(true);
+      }
+    }, SEARCH_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query, sender, contactId, kind, isSearching, messageRevisions]);
+
+  const getChatName = (chatId: string) =>
+    configuredChats.find(({ id }) => id === chatId)?.group?.name ??
+    getChatContact(chatId)?.name ??
+    chatId;
+
+  // Opens the chat scrolled to the message
+  const openResult = ({ chatId, message }: MessageSearchResult) => {
+    router.push({
+      pathname: "/(tabs)/chats/[id]",
+      params: { id: chatId, messageId: String(message._id) },
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchBar}>
+        <Ionicons name="search" size={18} color={Colors.gray} />
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search messages"
+          autoFocus
+          autoCorrect={false}
+          autoCapitalize="none"
+          clearButtonMode="while-editing"
+          returnKeyType="search"
+        />
+      </View>
+      <FilterChips
+        filters={SENDER_FILTERS}
+        selected={sender}
+        onSelect={selectSender}
+      />
+      {contacts.length > 0 && (
+        <FilterChips
+          filters={contactFilters}
+          selected={contactId}
+          onSelect={selectContact}
+          horizontal
+        />
+      )}
+      <FilterChips filters={KIND_FILTERS} selected={kind} onSelect={setKind} />
+
+      <FlatList
+        style={styles.results}
+        data={results}
+        keyboardShouldPersistTaps="handled"
+        keyExtractor={({ chatId, message }) => `${chatId}_${message._id}`}
+        ItemSeparatorComponent={() => (
+          <View style={[defaultStyles.separator, { marginLeft: 20 }]} />
+        )}
+        ListEmptyComponent={
+          hasSearched ? (
+            <Text style={styles.emptyText}>No messages found</Text>
+          ) : null
+        }
+        renderItem={({ item }) => {
+          const display = getResultDisplay(item);
+          const isSent = item.message.user._id === USER_IDS.CURRENT;
+
+          return (
+            <TouchableHighlight
+              activeOpacity={0.8}
+              underlayColor={Colors.lightGray}
+              onPress={() => openResult(item)}
+            >
+              <View style={styles.result}>
+                <View style={styles.resultHeader}>
+                  <Text style={styles.chatName} numberOfLines={1}>
+                    {getChatName(item.chatId)}
+                  </Text>
+                  <Text style={styles.date}>
+                    {format(item.message.createdAt, "MM.dd.yy HH:mm")}
+                  </Text>
+                </View>
+                <View style={styles.resultMessage}>
+                  {display.icon && (
+                    <Ionicons
+                      name={display.icon}
+                      size={16}
+                      color={Colors.primary}
+                    />
+                  )}
+                  <Text style={styles.messageText} numberOfLines={2}>
+                    {isSent ? "You: " : ""}
+                    {display.text}
+                  </Text>
+                </View>
+              </View>
+            </TouchableHighlight>
+          );
+        }}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#fff",
+  },
+  searchBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginHorizontal: 14,
+    marginTop: 10,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    backgroundColor: Colors.background,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  filters: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginHorizontal: 14,
+    marginTop: 10,
+  },
+  scrolledFilters: {
+    flexGrow: 0,
+    marginTop: 10,
+  },
+  scrolledFiltersContent: {
+    gap: 8,
+    paddingHorizontal: 14,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: Colors.lightGray,
+  },
+  selectedChip: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: "#333",
+  },
+  selectedChipText: {
+    color: "#fff",
+  },
+  results: {
+    flex: 1,
+    marginTop: 10,
+  },
+  result: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    gap: 4,
+  },
+  resultHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 10,
+  },
+  chatName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  date: {
+    color: Colors.gray,
+  },
+  resultMessage: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  messageText: {
+    flex: 1,
+    fontSize: 15,
+    color: Colors.gray,
+  },
+  emptyText: {
+    marginTop: 40,
+    textAlign: "center",
+    fontSize: 16,
+    color: Colors.gray,
+  },
+});
+
+export default Page;
@@ -1,6 +1,8 @@
 import Colors from "@/constants/Colors";
 import { Ionicons } from "@expo/vector-icons";
 import { router } from "expo-router";
+import { useState } from "react";
+import * as DocumentPicker from "expo-document-picker";
 import {
   View,
   ScrollView,
@@ -8,9 +10,18 @@ import {
   TouchableOpacity,
   StyleSheet,
   Linking,
+  Alert,
+  ActivityIndicator,
 } from "react-native";
+import { ChatBackup, readBackup, shareBackup } from "@/util/chatBackup";
+import { useChatContext } from "@/util/contextChat";
 
 const Page = () => {
+  const { getConfiguredChats, getContacts, getChatHistory, restoreChats } =
+    useChatContext();
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
   const openLink = async (url: string) => {
     try {
       await Linking.openURL(url);
@@ -19,6 +30,55 @@ const Page = () => {
     }
   };
 
+  // Archive of all contacts, chats, messages and shared files
+  const backUpChats = async () => {
+    setIsBackingUp(true);
+    try {
+      const chats = getConfiguredChats();
+      const messages: ChatBackup["messages"] = {};
+      for (const chat of chats) {
+        messages[chat.id] = await getChatHistory(chat.id);
+      }
+      await shareBackup({ contacts: getContacts(), chats, messages });
+    } catch (error) {
+      console.error("Failed to back up chats:", error);
+      Alert.alert("Backup Failed", "The chats could not be backed up.");
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  // Merges a backup into the stored chats, skipping what is already there
+  const restoreBackup = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ["application/zip", "application/octet-stream"],
+        copyToCacheDirectory: true,
+        multiple: false,
+      });
+      if (result.canceled || !result.assets?.length) {
+        return;
+      }
+
+      setIsRestoring(true);
+      const restored = await restoreChats(
+        await readBackup(result.assets[0].uri)
+      );
+      Alert.alert(
+        "Backup Restored",
+        `Added ${restored.chats} chats and ${restored.messages} messages.`
+      );
+    } catch (error) {
+      console.error("Failed to restore backup:", error);
+      Alert.alert(
+        "Restore Failed",
+        error instanceof Error ? error.message : "Unknown error"
+      );
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
   return (
     <View style={{ flex: 1, backgroundColor: Colors.background }}>
       <ScrollView
@@ -41,6 +101,31 @@ const Page = () => {
           </Text>
         </View>
 
+        {/* Backup */}
+        <View style={styles.section}>
+          <TouchableOpacity
+            onPress={backUpChats}
+            disabled={isBackingUp || isRestoring}
+          >
+            <View style={styles.menuItem}>
+              <Ionicons name="cloud-upload" size={20} color={Colors.primary} />
+              <Text style={styles.menuText}>Back Up Chats</Text>
+              {isBackingUp && <ActivityIndicator color={Colors.primary} />}
+            </View>
+          </TouchableOpacity>
+          <View style={styles.separator} />
+          <TouchableOpacity
+            onPress={restoreBackup}
+            disabled={isBackingUp || isRestoring}
+          >
+            <View style={styles.menuItem}>
+              <Ionicons name="cloud-download" size={20} color={Colors.primary} />
+              <Text style={styles.menuText}>Restore Backup</Text>
+              {isRestoring && <ActivityIndicator color={Colors.primary} />}
+            </View>
+          </TouchableOpacity>
+        </View>
+
         {/* Related Projects */}
         <TouchableOpacity 
           style={styles.section}
@@ -158,6 +243,12 @@ const styles = StyleSheet.create({
     alignItems: "center",
     paddingVertical: 4,
   },
+  separator: {
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: Colors.lightGray,
+    marginVertical: 10,
+    marginLeft: 32,
+  },
   menuText: {
     fontSize: 16,
     color: "#333",
@@ -22,28 +22,45 @@ global.nativeModuleProxy = {
 
 import FontAwesome from "@expo/vector-icons/FontAwesome";
 import { useFonts } from "expo-font";
-import { Stack, useRouter } from "expo-router";
+import { Stack, usePathname, useRouter } from "expo-router";
 import * as SplashScreen from "expo-splash-screen";
-import { useEffect } from "react";
+import { useEffect, useRef } from "react";
 import Colors from "@/constants/Colors";
 import { BLEProvider } from "@/util/contextBLE";
 import { ChatProvider } from "@/util/contextChat";
+import useMessageIngestion from "@/util/useMessageIngestion";
+import useOutboundQueue from "@/util/useOutboundQueue";
 
 export {
   // Catch any errors thrown by the Layout component.
   ErrorBoundary,
 } from "expo-router";
 
+// Screens opened by a link on launch get the tabs beneath them, so going back
+// leads into the app. The tabs are therefore also beneath the welcome screen.
+export const unstable_settings = {
+  initialRouteName: "(tabs)",
+};
+
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
 
 const InitialLayout = () => {
   const router = useRouter();
+  const pathname = usePathname();
+  const currentPath = useRef(pathname);
+  currentPath.current = pathname;
   const [loaded, error] = useFonts({
     SpaceMono: require("../assets/fonts/SpaceMono-Regular.ttf"),
     ...FontAwesome.font,
   });
 
+  // Send queued messages whenever a bridge is connected
+  useOutboundQueue();
+
+  // Store received data whichever screen is open
+  useMessageIngestion();
+
   // Expo Router uses Error Boundaries to catch errors in the navigation tree.
   useEffect(() => {
     if (error) throw error;
@@ -58,7 +75,10 @@ const InitialLayout = () => {
   useEffect(() => {
     if (loaded) {
       setTimeout(() => {
-        router.replace("/(tabs)/chats");
+        // Unless a link opened another screen in the meantime
+        if (currentPath.current === "/") {
+          router.dismissTo("/(tabs)/chats");
+        }
       }, 2000);
     }
   }, [loaded]);
@@ -67,6 +87,8 @@ const InitialLayout = () => {
     <Stack>
       <Stack.Screen name="index" options={{ headerShown: false }} />
       <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+      <Stack.Screen name="add" options={{ headerShown: false }} />
+      <Stack.Screen name="chat/[id]" options={{ headerShown: false }} />
       <Stack.Screen
         name="(modals)/new-chat"
         options={{
@@ -91,6 +113,42 @@ const InitialLayout = () => {
           },
         }}
       />
+      <Stack.Screen
+        name="(modals)/contact"
+        options={{
+          presentation: "modal",
+          title: "Contact",
+          headerTransparent: true,
+          headerBlurEffect: "regular",
+          headerStyle: {
+            backgroundColor: Colors.background,
+          },
+        }}
+      />
+      <Stack.Screen
+        name="(modals)/group"
+        options={{
+          presentation: "modal",
+          title: "Group Chat",
+          headerTransparent: true,
+          headerBlurEffect: "regular",
+          headerStyle: {
+            backgroundColor: Colors.background,
+          },
+        }}
+      />
+      <Stack.Screen
+        name="(modals)/encryption"
+        options={{
+          presentation: "modal",
+          title: "Encryption",
+          headerTransparent: true,
+          headerBlurEffect: "regular",
+          headerStyle: {
+            backgroundColor: Colors.background,
+          },
+        }}
+      />
     </Stack>
   );
 };
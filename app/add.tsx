@@ -0,0 +1,19 @@
+import { useEffect } from "react";
+import { router, useLocalSearchParams } from "expo-router";
+
+// Target of walorapp://add?name=…&mac=… links, opens the new chat form with
+// the endpoint filled in, in place of this screen
+const Page = () => {
+  const { name, mac } = useLocalSearchParams<{ name?: string; mac?: string }>();
+
+  useEffect(() => {
+    router.dismissTo({
+      pathname: "/(modals)/new-chat",
+      params: { name: name ?? "", mac: mac ?? "" },
+    });
+  }, [name, mac]);
+
+  return null;
+};
+
+export default Page;
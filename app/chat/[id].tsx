@@ -0,0 +1,39 @@
+import { useEffect } from "react";
+import { Alert } from "react-native";
+import { router, useLocalSearchParams } from "expo-router";
+
+import { useChatContext } from "@/util/contextChat";
+
+// Target of walorapp://chat/<mac> links. Once the chats are loaded it goes
+// back to the tabs and opens the chat with the node there, or the chat list
+// when there is no such chat. Links that name a chat ID open that chat.
+const Page = () => {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { configuredChats, contacts, chatsLoaded } = useChatContext();
+  const contact = contacts.find(
+    ({ macAddress }) => macAddress.toLowerCase() === id?.toLowerCase()
+  );
+  const chatId = configuredChats.find(
+    (chat) => chat.id === id || (!!contact && chat.contactId === contact.id)
+  )?.id;
+
+  useEffect(() => {
+    if (!chatsLoaded) {
+      return;
+    }
+
+    if (chatId) {
+      router.dismissTo({
+        pathname: "/(tabs)/chats/[id]",
+        params: { id: chatId },
+      });
+    } else {
+      router.dismissTo("/(tabs)/chats");
+      Alert.alert("Chat Not Found", "There is no chat for this link yet.");
+    }
+  }, [chatsLoaded, chatId]);
+
+  return null;
+};
+
+export default Page;
@@ -9,6 +9,7 @@ import Swipeable from 'react-native-gesture-handler/Swipeable';
 
 interface Props {
   onArchive?: () => void;
+  onMore?: () => void;
 }
 
 export default class AppleStyleSwipeableRow extends Component<PropsWithChildren<Props>> {
@@ -26,6 +27,8 @@ export default class AppleStyleSwipeableRow extends Component<PropsWithChildren<
       this.close();
       if (text === 'Archive' && this.props.onArchive) {
         this.props.onArchive();
+      } else if (text === 'More' && this.props.onMore) {
+        this.props.onMore();
       } else {
         // eslint-disable-next-line no-alert
         window.alert(text);
@@ -53,9 +56,10 @@ export default class AppleStyleSwipeableRow extends Component<PropsWithChildren<
   ) => (
     <View
       style={{
-        width: 96,
+        width: this.props.onMore ? 192 : 96,
         flexDirection: I18nManager.isRTL ? 'row-reverse' : 'row',
       }}>
+      {this.props.onMore && this.renderRightAction('More', '#C8C7CD', 192, progress)}
       {this.renderRightAction('Archive', Colors.muted, 96, progress)}
     </View>
   );
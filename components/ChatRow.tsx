@@ -1,46 +1,31 @@
 import AppleStyleSwipeableRow from '@/components/AppleStyleSwipeableRow';
+import ContactAvatar from '@/components/ContactAvatar';
+import GroupAvatar from '@/components/GroupAvatar';
 import Colors from '@/constants/Colors';
 import { format } from 'date-fns';
 import { router } from 'expo-router';
 import { FC } from 'react';
-import { View, Text, Image, TouchableHighlight, Alert } from 'react-native';
+import { View, Text, TouchableHighlight, Alert } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useBLEContext } from '@/util/contextBLE';
+import { ChatGroup, Contact, useChatContext } from '@/util/contextChat';
 
 export interface ChatRowProps {
   id: string;
-  from: string;
+  contact: Contact | undefined;
+  group?: ChatGroup;
   date: string;
   msg: string;
   read: boolean;
   unreadCount: number;
   onArchive?: () => void;
+  onMore?: () => void;
 }
 
-const ChatRow: FC<ChatRowProps> = ({ id, from, date, msg, read, unreadCount, onArchive }) => {
+const ChatRow: FC<ChatRowProps> = ({ id, contact, group, date, msg, read, unreadCount, onArchive, onMore }) => {
   const { connectedDevice } = useBLEContext();
-
-  // Extract MAC address from ID if it follows the pattern "name_macaddress"
-  const getDisplayName = () => {
-    if (id && id.includes("_")) {
-      const parts = id.split("_");
-      if (parts.length >= 2) {
-        const name = parts[0];
-        const macAddress = parts[1];
-        // Capitalize first letter of name
-        const capitalizedName = name.charAt(0).toUpperCase() + name.slice(1).toLowerCase();
-        return `${capitalizedName} @ ${macAddress}`;
-      }
-    }
-    // Fallback to original from prop formatting
-    return from
-      .split(" ")
-      .map(
-        (word) =>
-          word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
-      )
-      .join(" ");
-  };
+  const { outboundQueue } = useChatContext();
+  const queuedCount = outboundQueue[id]?.length ?? 0;
 
   // Format coordinates to 2 significant digits
   const formatCoordinates = (lat: string, lng: string): string => {
@@ -96,7 +81,7 @@ const ChatRow: FC<ChatRowProps> = ({ id, from, date, msg, read, unreadCount, onA
     };
   };
 
-  const displayName = getDisplayName();
+  const displayName = group?.name ?? contact?.name ?? 'Unknown contact';
   const messageDisplay = getMessageDisplay();
 
   // Validate if this chat can be opened
@@ -111,24 +96,17 @@ const ChatRow: FC<ChatRowProps> = ({ id, from, date, msg, read, unreadCount, onA
       return;
     }
 
-    // Extract MAC address from chat ID
-    if (id && id.includes("_")) {
-      const parts = id.split("_");
-      if (parts.length >= 2) {
-        const macAddress = parts[1].toLowerCase();
-        
-        // Check if the MAC address matches the connected device's local name
-        if (connectedDevice.localName && 
-            connectedDevice.localName.trim() !== "" &&
-            macAddress === connectedDevice.localName.toLowerCase()) {
-          Alert.alert(
-            "Cannot Open Chat",
-            "This chat cannot be opened because the MAC address matches the device you are currently connected to. You cannot have a remote chat with your own device.",
-            [{ text: "OK" }]
-          );
-          return;
-        }
-      }
+    // Check if the contact's MAC address matches the connected device's local name
+    if (contact &&
+        connectedDevice.localName && 
+        connectedDevice.localName.trim() !== "" &&
+        contact.macAddress.toLowerCase() === connectedDevice.localName.toLowerCase()) {
+      Alert.alert(
+        "Cannot Open Chat",
+        "This chat cannot be opened because the MAC address matches the device you are currently connected to. You cannot have a remote chat with your own device.",
+        [{ text: "OK" }]
+      );
+      return;
     }
     
     // If validation passes, open the chat
@@ -136,7 +114,7 @@ const ChatRow: FC<ChatRowProps> = ({ id, from, date, msg, read, unreadCount, onA
   };
 
   return (
-    <AppleStyleSwipeableRow onArchive={onArchive}>
+    <AppleStyleSwipeableRow onArchive={onArchive} onMore={onMore}>
         <TouchableHighlight 
           activeOpacity={0.8} 
           underlayColor={Colors.lightGray}
@@ -151,34 +129,25 @@ const ChatRow: FC<ChatRowProps> = ({ id, from, date, msg, read, unreadCount, onA
               paddingVertical: 10,
             }}
           >
-            <View
-              style={{
-                width: 50,
-                height: 50,
-                borderRadius: 25,
-                backgroundColor: `hsl(${
-                  (displayName
-                    .split("")
-                    .reduce((acc, char) => acc + char.charCodeAt(0), 0) *
-                    137.508) %
-                  360
-                }, 70%, 60%)`,
-                justifyContent: 'center',
-                alignItems: 'center'
-              }}
-            >
-              <Text style={{ 
-              color: 'white', 
-              fontSize: 20, 
-              fontWeight: 'bold' 
-              }}>
-              {displayName.charAt(0).toUpperCase()}
-              </Text>
-            </View>
+            {group ? (
+              <GroupAvatar size={50} />
+            ) : (
+              <ContactAvatar contact={contact} size={50} />
+            )}
             <View style={{ flex: 1 }}>
-              <Text style={{ fontSize: 18, fontWeight: "bold" }}>
-                {displayName}
-              </Text>
+              <View style={{ flexDirection: 'row', alignItems: 'center', gap: 4 }}>
+                <Text style={{ fontSize: 18, fontWeight: "bold" }}>
+                  {displayName}
+                </Text>
+                {!group && contact?.encryptionKey && (
+                  <Ionicons
+                    name="lock-closed"
+                    size={14}
+                    color={Colors.gray}
+                    accessibilityLabel="End-to-end encrypted"
+                  />
+                )}
+              </View>
               <View style={{ flexDirection: 'row', alignItems: 'center', gap: 6 }}>
                 {messageDisplay.type !== 'text' && (
                   <Ionicons 
@@ -192,9 +161,36 @@ const ChatRow: FC<ChatRowProps> = ({ id, from, date, msg, read, unreadCount, onA
                 </Text>
               </View>
             </View>
-            <Text style={{ color: Colors.gray, paddingRight: 20, alignSelf: 'flex-start' }}>
-              {format(date, 'MM.dd.yy')}
-            </Text>
+            <View style={{ paddingRight: 20, alignSelf: 'flex-start', alignItems: 'flex-end', gap: 4 }}>
+              <Text style={{ color: read ? Colors.gray : Colors.primary }}>
+                {format(date, 'MM.dd.yy')}
+              </Text>
+              {unreadCount > 0 && (
+                <View
+                  style={{
+                    minWidth: 20,
+                    height: 20,
+                    borderRadius: 10,
+                    paddingHorizontal: 6,
+                    backgroundColor: Colors.primary,
+                    justifyContent: 'center',
+                    alignItems: 'center',
+                  }}
+                  accessibilityLabel={`${unreadCount} unread messages`}
+                >
+                  <Text style={{ color: 'white', fontSize: 12, fontWeight: 'bold' }}>{unreadCount}</Text>
+                </View>
+              )}
+              {queuedCount > 0 && (
+                <View
+                  style={{ flexDirection: 'row', alignItems: 'center', gap: 2 }}
+                  accessibilityLabel={`${queuedCount} messages waiting to be sent`}
+                >
+                  <Ionicons name="time-outline" size={14} color={Colors.gray} />
+                  <Text style={{ color: Colors.gray, fontSize: 12 }}>{queuedCount}</Text>
+                </View>
+              )}
+            </View>
             </View>
         </TouchableHighlight>
     </AppleStyleSwipeableRow>
@@ -0,0 +1,58 @@
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+import Colors from "@/constants/Colors";
+import { Contact } from "@/util/contextChat";
+
+interface ContactAvatarProps {
+  contact: Pick<Contact, "name" | "macAddress"> | undefined;
+  size: number;
+}
+
+// Hue derived from the node's address, so a contact keeps its colour when
+// renamed and looks the same on every phone
+const getAvatarColor = (macAddress: string): string =>
+  `hsl(${
+    (macAddress
+      .toLowerCase()
+      .split("")
+      .reduce((acc, char) => acc + char.charCodeAt(0), 0) *
+      137.508) %
+    360
+  }, 70%, 60%)`;
+
+/**
+ * Circle with the initial of the contact's name, generated on the device so
+ * no avatar service is needed offline.
+ */
+const ContactAvatar: React.FC<ContactAvatarProps> = ({ contact, size }) => (
+  <View
+    style={[
+      styles.avatar,
+      {
+        width: size,
+        height: size,
+        borderRadius: size / 2,
+        backgroundColor: contact
+          ? getAvatarColor(contact.macAddress)
+          : Colors.gray,
+      },
+    ]}
+  >
+    <Text style={[styles.initial, { fontSize: size * 0.4 }]}>
+      {contact?.name.charAt(0).toUpperCase() || "?"}
+    </Text>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  avatar: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  initial: {
+    color: "white",
+    fontWeight: "bold",
+  },
+});
+
+export default ContactAvatar;
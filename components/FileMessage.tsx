@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useMemo } from "react";
+import React, { useState, useCallback, useMemo } from "react";
 import {
   View,
   Text,
@@ -13,10 +13,14 @@ import { Ionicons } from "@expo/vector-icons";
 import * as FileSystem from "expo-file-system";
 import * as Sharing from "expo-sharing";
 import Colors from "@/constants/Colors";
+import {
+  AttachmentRef,
+  getAttachmentUri,
+  readAttachment,
+} from "@/util/attachmentStore";
 
 interface FileMessageProps {
-  filename: string;
-  base64Data: string;
+  attachment: AttachmentRef;
   onPress?: () => void;
 }
 
@@ -60,7 +64,6 @@ const TEXT_EXTENSIONS = [
   "md",
 ] as const;
 const BYTE_SIZE = 1024;
-const BASE64_OVERHEAD = 4 / 3; // Base64 is ~33% larger than original
 
 const ICON_MAP: Record<string, IconName> = {
   pdf: "document-text",
@@ -76,53 +79,26 @@ const ICON_MAP: Record<string, IconName> = {
   avi: "videocam",
 } as const;
 
-const MIME_TYPE_MAP: Record<string, string> = {
-  pdf: "application/pdf",
-  jpg: "image/jpeg",
-  jpeg: "image/jpeg",
-  png: "image/png",
-  gif: "image/gif",
-  txt: "text/plain",
-  json: "application/json",
-  mp3: "audio/mpeg",
-  mp4: "video/mp4",
-} as const;
-
 /**
  * FileMessage component for displaying and handling file messages in a chat interface.
- * Supports text file previews, auto-saving to device storage, and file sharing.
+ * Supports text file previews and file sharing. The file content is read from
+ * the attachment store only when the file is opened.
  *
  * Features:
  * - Automatic file icon detection based on file extension
  * - Text file content preview in a modal
- * - Auto-save functionality for received files
  * - File sharing integration with device native sharing
  * - Accessibility support with proper labels and hints
  * - Performance optimizations with memoization and callbacks
  *
- * @param filename - The name of the file including extension
- * @param base64Data - The file data encoded in base64 format
+ * @param attachment - Reference to the file in the attachment store
  * @param onPress - Optional custom press handler. If not provided, default behavior is used.
  */
-const FileMessage: React.FC<FileMessageProps> = ({
-  filename,
-  base64Data,
-  onPress,
-}) => {
+const FileMessage: React.FC<FileMessageProps> = ({ attachment, onPress }) => {
+  const { name: filename, size, mimeType } = attachment;
   const [showModal, setShowModal] = useState(false);
   const [fileContent, setFileContent] = useState<string>("");
   const [isLoading, setIsLoading] = useState(false);
-  const [savedFileUri, setSavedFileUri] = useState<string | null>(null);
-
-  // Memoized helper functions
-  const isBase64 = useCallback((str: string): boolean => {
-    if (!str || str.length === 0) return false;
-    try {
-      return btoa(atob(str)) === str;
-    } catch {
-      return false;
-    }
-  }, []);
 
   const getFileExtension = useCallback((filename: string): string => {
     return filename.split(".").pop()?.toLowerCase() || "";
@@ -141,76 +117,15 @@ const FileMessage: React.FC<FileMessageProps> = ({
     return TEXT_EXTENSIONS.includes(fileExtension as any);
   }, [fileExtension]);
 
-  // Auto-save received file to device storage when component mounts
-  useEffect(() => {
-    const autoSaveFile = async (): Promise<void> => {
-      // Validate inputs before processing
-      if (!base64Data || !filename || !isBase64(base64Data)) {
-        return;
-      }
-
-      try {
-        // Ensure document directory exists
-        const documentDir = FileSystem.documentDirectory;
-        if (!documentDir) {
-          throw new Error("Document directory not available");
-        }
-
-        // Create unique filename to avoid conflicts
-        const timestamp = Date.now();
-        const sanitizedFilename = filename.replace(/[^a-zA-Z0-9.-]/g, "_"); // Sanitize filename
-        const fileUri = `${documentDir}received_${timestamp}_${sanitizedFilename}`;
-
-        await FileSystem.writeAsStringAsync(fileUri, base64Data, {
-          encoding: FileSystem.EncodingType.Base64,
-        });
-
-        // Verify file was written successfully
-        const fileInfo = await FileSystem.getInfoAsync(fileUri);
-        const fileSize = (fileInfo as FileSystem.FileInfo & { size?: number })
-          .size;
-
-        if (fileInfo.exists && fileSize && fileSize > 0) {
-          setSavedFileUri(fileUri);
-        } else {
-          throw new Error("Auto-saved file is empty or doesn't exist");
-        }
-      } catch (error) {
-        console.error("Failed to auto-save file:", error);
-        // Don't show user error for auto-save failure as it's a background operation
-      }
-    };
-
-    // Only run auto-save once when component mounts with valid data
-    if (base64Data && filename) {
-      autoSaveFile();
+  const formattedSize = useMemo((): string => {
+    if (size < BYTE_SIZE) {
+      return `${Math.round(size)} B`;
+    } else if (size < BYTE_SIZE * BYTE_SIZE) {
+      return `${Math.round(size / BYTE_SIZE)} KB`;
+    } else {
+      return `${Math.round(size / (BYTE_SIZE * BYTE_SIZE))} MB`;
     }
-  }, []); // Empty dependency array - only run once on mount
-
-  const formatFileSize = useCallback(
-    (dataString: string): string => {
-      const sizeInBytes = isBase64(dataString)
-        ? dataString.length / BASE64_OVERHEAD // More accurate base64 to bytes conversion
-        : new Blob([dataString]).size; // Plain text size
-
-      if (sizeInBytes < BYTE_SIZE) {
-        return `${Math.round(sizeInBytes)} B`;
-      } else if (sizeInBytes < BYTE_SIZE * BYTE_SIZE) {
-        return `${Math.round(sizeInBytes / BYTE_SIZE)} KB`;
-      } else {
-        return `${Math.round(sizeInBytes / (BYTE_SIZE * BYTE_SIZE))} MB`;
-      }
-    },
-    [isBase64]
-  );
-
-  const getMimeType = useCallback(
-    (filename: string): string => {
-      const extension = getFileExtension(filename);
-      return MIME_TYPE_MAP[extension] || "application/octet-stream";
-    },
-    [getFileExtension]
-  );
+  }, [size]);
 
   const handlePress = useCallback(async (): Promise<void> => {
     if (onPress) {
@@ -222,9 +137,7 @@ const FileMessage: React.FC<FileMessageProps> = ({
     if (isTextFile) {
       try {
         setIsLoading(true);
-        const decodedContent = isBase64(base64Data)
-          ? atob(base64Data)
-          : base64Data;
+        const decodedContent = atob(await readAttachment(attachment));
 
         setFileContent(decodedContent);
         setShowModal(true);
@@ -238,44 +151,28 @@ const FileMessage: React.FC<FileMessageProps> = ({
       // For non-text files, show options to save
       Alert.alert(
         "File Options",
-        `File: ${filename}\nSize: ${formatFileSize(base64Data)}`,
+        `File: ${filename}\nSize: ${formattedSize}`,
         [
           { text: "Cancel", style: "cancel" },
           { text: "Save to Device", onPress: saveToDevice },
         ]
       );
     }
-  }, [onPress, isTextFile, isBase64, base64Data, filename, formatFileSize]);
+  }, [onPress, isTextFile, attachment, filename, formattedSize]);
 
   const saveToDevice = useCallback(async (): Promise<void> => {
     try {
-      let fileUri: string;
-
-      // Use already saved file if available, otherwise save it now
-      if (savedFileUri) {
-        fileUri = savedFileUri;
-
-        // Verify the file still exists
-        const fileInfo = await FileSystem.getInfoAsync(fileUri);
-        if (!fileInfo.exists) {
-          // Create new file if saved one doesn't exist
-          fileUri = `${FileSystem.documentDirectory}${filename}`;
-          await FileSystem.writeAsStringAsync(fileUri, base64Data, {
-            encoding: FileSystem.EncodingType.Base64,
-          });
-        }
-      } else {
-        // Create a temporary file for sharing
-        fileUri = `${FileSystem.documentDirectory}${filename}`;
-        await FileSystem.writeAsStringAsync(fileUri, base64Data, {
-          encoding: FileSystem.EncodingType.Base64,
-        });
-      }
+      // Stored files are named by their hash, so share a copy with its name
+      const fileUri = `${FileSystem.cacheDirectory}${filename}`;
+      await FileSystem.copyAsync({
+        from: getAttachmentUri(attachment.hash),
+        to: fileUri,
+      });
 
       // Check if sharing is available and share the file
       if (await Sharing.isAvailableAsync()) {
         await Sharing.shareAsync(fileUri, {
-          mimeType: getMimeType(filename),
+          mimeType,
           dialogTitle: `Save ${filename}`,
         });
       } else {
@@ -285,7 +182,7 @@ const FileMessage: React.FC<FileMessageProps> = ({
       console.error("Error saving file:", error);
       Alert.alert("Error", "Failed to save file to device");
     }
-  }, [savedFileUri, filename, base64Data, getMimeType]);
+  }, [attachment, filename, mimeType]);
 
   const copyToClipboard = useCallback(async (): Promise<void> => {
     // Note: expo-clipboard would be needed for this functionality
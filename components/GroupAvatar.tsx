@@ -0,0 +1,30 @@
+import React from "react";
+import { StyleSheet, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import Colors from "@/constants/Colors";
+
+interface GroupAvatarProps {
+  size: number;
+}
+
+// Avatar of a group chat, which has no node of its own
+const GroupAvatar: React.FC<GroupAvatarProps> = ({ size }) => (
+  <View
+    style={[
+      styles.avatar,
+      { width: size, height: size, borderRadius: size / 2 },
+    ]}
+  >
+    <Ionicons name="people" size={size * 0.5} color="white" />
+  </View>
+);
+
+const styles = StyleSheet.create({
+  avatar: {
+    backgroundColor: Colors.primary,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+});
+
+export default GroupAvatar;
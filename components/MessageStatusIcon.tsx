@@ -0,0 +1,93 @@
+import React from "react";
+import { StyleSheet, TouchableOpacity, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import Colors from "@/constants/Colors";
+import { MessageStatus } from "@/util/contextChat";
+
+interface MessageStatusIconProps {
+  status?: MessageStatus;
+  onRetry?: () => void;
+}
+
+type IconName =
+  | "time-outline"
+  | "ellipsis-horizontal"
+  | "checkmark"
+  | "checkmark-done"
+  | "alert-circle";
+
+const STATUS_ICONS: Record<MessageStatus, IconName> = {
+  queued: "time-outline",
+  sending: "ellipsis-horizontal",
+  sent: "checkmark",
+  delivered: "checkmark-done",
+  failed: "alert-circle",
+};
+
+const STATUS_LABELS: Record<MessageStatus, string> = {
+  queued: "Waiting for a bridge connection",
+  sending: "Sending",
+  sent: "Sent to bridge",
+  delivered: "Delivered",
+  failed: "Not sent, tap to retry",
+};
+
+/**
+ * Delivery status tick shown next to the time of an outgoing message.
+ * Failed messages render a warning icon that calls onRetry when tapped.
+ *
+ * @param status - Delivery status of the message, nothing is shown if unset
+ * @param onRetry - Called when the warning icon of a failed message is tapped
+ */
+const MessageStatusIcon: React.FC<MessageStatusIconProps> = ({
+  status,
+  onRetry,
+}) => {
+  if (!status) {
+    return null;
+  }
+
+  const icon = (
+    <Ionicons
+      name={STATUS_ICONS[status]}
+      size={14}
+      color={
+        status === "failed"
+          ? Colors.red
+          : status === "delivered"
+          ? Colors.primary
+          : Colors.gray
+      }
+    />
+  );
+
+  if (status === "failed" && onRetry) {
+    return (
+      <TouchableOpacity
+        style={styles.container}
+        onPress={onRetry}
+        hitSlop={8}
+        accessibilityLabel={STATUS_LABELS[status]}
+        accessibilityRole="button"
+      >
+        {icon}
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <View style={styles.container} accessibilityLabel={STATUS_LABELS[status]}>
+      {icon}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginRight: 8,
+    marginLeft: 2,
+    justifyContent: "center",
+  },
+});
+
+export default MessageStatusIcon;
@@ -0,0 +1,54 @@
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+import MessageStatusIcon from "@/components/MessageStatusIcon";
+import Colors from "@/constants/Colors";
+import { ChatMessage, Contact } from "@/util/contextChat";
+
+interface RecipientStatusListProps {
+  recipients: NonNullable<ChatMessage["recipients"]>;
+  contacts: Contact[];
+}
+
+/**
+ * Delivery status of a group message per member, shown inside its bubble.
+ * Members that are no longer contacts are listed by their ID.
+ *
+ * @param recipients - Delivery of the message to each member
+ * @param contacts - Contacts the member names are taken from
+ */
+const RecipientStatusList: React.FC<RecipientStatusListProps> = ({
+  recipients,
+  contacts,
+}) => (
+  <View style={styles.container}>
+    {Object.entries(recipients).map(([contactId, { status }]) => (
+      <View key={contactId} style={styles.recipient}>
+        <Text style={styles.name} numberOfLines={1}>
+          {contacts.find(({ id }) => id === contactId)?.name ?? contactId}
+        </Text>
+        <MessageStatusIcon status={status} />
+      </View>
+    ))}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    columnGap: 4,
+    marginHorizontal: 10,
+    marginTop: 6,
+  },
+  recipient: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  name: {
+    maxWidth: 100,
+    fontSize: 12,
+    color: Colors.gray,
+  },
+});
+
+export default RecipientStatusList;
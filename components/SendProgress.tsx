@@ -0,0 +1,73 @@
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import Colors from "@/constants/Colors";
+import { OutgoingTransferProgress } from "@/util/useBLE";
+
+interface SendProgressProps {
+  transfer: OutgoingTransferProgress;
+  onCancel: () => void;
+}
+
+/**
+ * Progress bar shown under an outgoing message while its chunks are being
+ * written to the bridge, with a button to cancel the transfer.
+ *
+ * @param transfer - Progress of the outgoing transfer
+ * @param onCancel - Called when the cancel button is tapped
+ */
+const SendProgress: React.FC<SendProgressProps> = ({ transfer, onCancel }) => {
+  const progress =
+    transfer.totalChunks > 0 ? transfer.sentChunks / transfer.totalChunks : 0;
+  const percent = Math.round(progress * 100);
+
+  return (
+    <View style={styles.container}>
+      <View
+        style={styles.track}
+        accessibilityLabel={`Sending, ${percent} percent`}
+      >
+        <View style={[styles.bar, { width: `${percent}%` }]} />
+      </View>
+      <Text style={styles.text}>
+        {transfer.sentChunks}/{transfer.totalChunks}
+      </Text>
+      <TouchableOpacity
+        onPress={onCancel}
+        hitSlop={8}
+        accessibilityLabel="Cancel sending"
+        accessibilityRole="button"
+      >
+        <Ionicons name="close-circle" size={16} color={Colors.gray} />
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    width: 180,
+    paddingHorizontal: 4,
+  },
+  track: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: Colors.lightGray,
+    overflow: "hidden",
+  },
+  bar: {
+    height: "100%",
+    backgroundColor: Colors.primary,
+  },
+  text: {
+    fontSize: 11,
+    color: Colors.gray,
+    fontFamily: "monospace",
+  },
+});
+
+export default SendProgress;
@@ -0,0 +1,125 @@
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import Colors from "@/constants/Colors";
+import { IncomingTransferProgress } from "@/util/useBLE";
+
+interface TransferProgressBubbleProps {
+  transfer: IncomingTransferProgress;
+}
+
+const BYTE_SIZE = 1024;
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < BYTE_SIZE) {
+    return `${Math.round(bytes)} B`;
+  } else if (bytes < BYTE_SIZE * BYTE_SIZE) {
+    return `${(bytes / BYTE_SIZE).toFixed(1)} KB`;
+  } else {
+    return `${(bytes / (BYTE_SIZE * BYTE_SIZE)).toFixed(1)} MB`;
+  }
+};
+
+const formatDuration = (seconds: number): string => {
+  if (seconds < 60) {
+    return `${Math.ceil(seconds)} s`;
+  }
+  return `${Math.floor(seconds / 60)} min ${Math.ceil(seconds % 60)} s`;
+};
+
+/**
+ * Placeholder bubble for an incoming message that is still being received.
+ * Shows chunk progress, transfer rate and the estimated time left.
+ *
+ * @param transfer - Progress of the incoming transfer
+ */
+const TransferProgressBubble: React.FC<TransferProgressBubbleProps> = ({
+  transfer,
+}) => {
+  const progress =
+    transfer.totalChunks > 0
+      ? transfer.receivedChunks / transfer.totalChunks
+      : 0;
+  const isFile = transfer.messageType === "f";
+
+  const details = [
+    `${formatBytes(transfer.receivedBytes)} of ~${formatBytes(
+      transfer.estimatedBytes
+    )}`,
+  ];
+  if (transfer.bytesPerSecond !== null) {
+    details.push(`${formatBytes(transfer.bytesPerSecond)}/s`);
+  }
+  if (transfer.etaSeconds !== null) {
+    details.push(`${formatDuration(transfer.etaSeconds)} left`);
+  }
+
+  return (
+    <View
+      style={styles.container}
+      accessibilityLabel={`Receiving ${
+        isFile ? "file" : "message"
+      }, ${Math.round(progress * 100)} percent`}
+    >
+      <View style={styles.header}>
+        <Ionicons
+          name={isFile ? "document-outline" : "chatbubble-ellipses-outline"}
+          size={16}
+          color={Colors.gray}
+        />
+        <Text style={styles.title}>
+          Receiving {isFile ? "file" : "message"}…
+        </Text>
+        <Text style={styles.chunks}>
+          {transfer.receivedChunks}/{transfer.totalChunks}
+        </Text>
+      </View>
+      <View style={styles.track}>
+        <View style={[styles.bar, { width: `${progress * 100}%` }]} />
+      </View>
+      <Text style={styles.details}>{details.join(" · ")}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#fff",
+    borderRadius: 15,
+    padding: 10,
+    margin: 4,
+    width: 220,
+    gap: 6,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  title: {
+    flex: 1,
+    fontSize: 14,
+    color: "#000",
+  },
+  chunks: {
+    fontSize: 12,
+    color: Colors.gray,
+    fontFamily: "monospace",
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: Colors.lightGray,
+    overflow: "hidden",
+  },
+  bar: {
+    height: "100%",
+    backgroundColor: Colors.primary,
+  },
+  details: {
+    fontSize: 11,
+    color: Colors.gray,
+  },
+});
+
+export default TransferProgressBubble;
@@ -0,0 +1,84 @@
+import React from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import ContactAvatar from "@/components/ContactAvatar";
+import Colors from "@/constants/Colors";
+import { UnknownSender } from "@/util/contextChat";
+
+interface UnknownSenderRowProps {
+  sender: UnknownSender;
+  onAccept: () => void;
+  onIgnore: () => void;
+}
+
+/**
+ * A node that messaged without being a contact, shown above the chats until
+ * the user accepts it, which creates its chat, or ignores it.
+ *
+ * @param sender - Address of the node and the messages held for it
+ * @param onAccept - Called when the user accepts the node
+ * @param onIgnore - Called when the user drops the held messages
+ */
+const UnknownSenderRow: React.FC<UnknownSenderRowProps> = ({
+  sender,
+  onAccept,
+  onIgnore,
+}) => {
+  const count = sender.messages.length;
+
+  return (
+    <View style={styles.container}>
+      <ContactAvatar
+        contact={{ name: sender.address, macAddress: sender.address }}
+        size={50}
+      />
+      <View style={styles.details}>
+        <Text style={styles.address} numberOfLines={1}>
+          {sender.address}
+        </Text>
+        <Text style={styles.summary}>
+          {count} {count === 1 ? "message" : "messages"} from an unknown node
+        </Text>
+      </View>
+      <TouchableOpacity onPress={onIgnore} style={styles.button}>
+        <Text style={[styles.buttonText, { color: Colors.red }]}>Ignore</Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={onAccept} style={styles.button}>
+        <Text style={[styles.buttonText, { color: Colors.primary }]}>
+          Accept
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 14,
+    paddingLeft: 20,
+    paddingRight: 10,
+    paddingVertical: 10,
+    backgroundColor: Colors.background,
+  },
+  details: {
+    flex: 1,
+  },
+  address: {
+    fontSize: 18,
+    fontWeight: "bold",
+  },
+  summary: {
+    fontSize: 14,
+    color: Colors.gray,
+  },
+  button: {
+    padding: 6,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
+
+export default UnknownSenderRow;
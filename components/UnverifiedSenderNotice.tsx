@@ -0,0 +1,36 @@
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import Colors from "@/constants/Colors";
+
+/**
+ * Warning shown on a received message that claims to come from the node of
+ * an encrypted chat, but was not sealed with the chat's key. Anyone in range
+ * can send such a message.
+ */
+const UnverifiedSenderNotice: React.FC = () => (
+  <View
+    style={styles.container}
+    accessibilityLabel="Sender not verified, this message may not come from this contact"
+  >
+    <Ionicons name="warning" size={12} color={Colors.red} />
+    <Text style={styles.text}>Sender not verified</Text>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginHorizontal: 10,
+    marginTop: 6,
+  },
+  text: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: Colors.red,
+  },
+});
+
+export default UnverifiedSenderNotice;
@@ -0,0 +1,18 @@
+// Prefixes that mark special chat message payloads
+export const MESSAGE_PREFIXES = {
+  FILE_DATA: "FILE_DATA:",
+  FILE: "FILE:",
+  LOCATION: "Location: ",
+} as const;
+
+// GiftedChat user IDs
+export const USER_IDS = {
+  SYSTEM: 0,
+  CURRENT: 1,
+  LORA_DEVICE: 2,
+} as const;
+
+export const MESSAGE_PATTERNS = {
+  LOCATION: /^(-?\d+\.?\d*),\s*(-?\d+\.?\d*)$/,
+  LOCATION_URL: /q=(-?\d+\.?\d*),(-?\d+\.?\d*)/,
+} as const;
@@ -0,0 +1,39 @@
+import { decode } from "base-64";
+
+import {
+  decodeBinaryPayload,
+  encodeBinaryPayload,
+} from "@/util/binaryPayload";
+
+describe("binary payloads", () => {
+  it("sends text as UTF-8", () => {
+    const { payload, compressed } = encodeBinaryPayload("Grüße", "text", true);
+
+    expect(compressed).toBe(false);
+    expect(payload).toBe("GrÃ¼Ã\u009fe");
+    expect(decodeBinaryPayload(payload, "text", false)).toBe("Grüße");
+  });
+
+  it("sends file content as raw bytes after the name", () => {
+    const fileMessage = "FILE:notes.txt:aGVsbG8gd29ybGQ=";
+    const { payload } = encodeBinaryPayload(fileMessage, "file", false);
+
+    expect(payload).toBe(`notes.txt\u0000${decode("aGVsbG8gd29ybGQ=")}`);
+    expect(decodeBinaryPayload(payload, "file", false)).toBe(fileMessage);
+  });
+
+  it("round-trips deflated payloads", () => {
+    const message = "All stations report normal levels. ".repeat(8);
+    const { payload, compressed } = encodeBinaryPayload(message, "text", true);
+
+    expect(compressed).toBe(true);
+    expect(payload.length).toBeLessThan(message.length);
+    expect(decodeBinaryPayload(payload, "text", true)).toBe(message);
+  });
+
+  it("sends text of file type that is not a file message as is", () => {
+    const { payload } = encodeBinaryPayload("File received", "file", false);
+
+    expect(decodeBinaryPayload(payload, "file", false)).toBe("File received");
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  createPacing,
+  needsConfirmation,
+  onCongestion,
+  onWindowConfirmed,
+  PacingState,
+} from "@/util/blePacing";
+
+const repeat = (
+  pacing: PacingState,
+  step: (pacing: PacingState) => PacingState,
+  times: number
+): PacingState =>
+  Array.from({ length: times }).reduce<PacingState>(step, pacing);
+
+describe("needsConfirmation", () => {
+  it("confirms every frame without write-without-response", () => {
+    const pacing = createPacing(false);
+
+    expect(needsConfirmation(pacing, 0, false)).toBe(true);
+  });
+
+  it("confirms the first and the last frame", () => {
+    const pacing = createPacing(true);
+
+    expect(needsConfirmation(pacing, 0, true)).toBe(true);
+    expect(needsConfirmation(pacing, 0, false)).toBe(false);
+  });
+
+  it("confirms the last frame of each window", () => {
+    const pacing = createPacing(true);
+
+    expect(needsConfirmation(pacing, pacing.window - 2, false)).toBe(false);
+    expect(needsConfirmation(pacing, pacing.window - 1, false)).toBe(true);
+  });
+});
+
+describe("window and delay", () => {
+  it("grows the window and shrinks the delay while the bridge keeps up", () => {
+    const initial = createPacing(true);
+    const pacing = onWindowConfirmed(initial);
+
+    expect(pacing.window).toBe(initial.window + 1);
+    expect(pacing.frameDelay).toBeLessThan(initial.frameDelay);
+  });
+
+  it("stays within its bounds", () => {
+    const fast = repeat(createPacing(true), onWindowConfirmed, 100);
+    expect(fast.window).toBe(32);
+    expect(fast.frameDelay).toBe(0);
+
+    const slow = repeat(createPacing(true), onCongestion, 100);
+    expect(slow.window).toBe(1);
+    expect(slow.frameDelay).toBe(500);
+  });
+
+  it("halves the window and doubles the delay on congestion", () => {
+    const pacing = onCongestion({
+      window: 10,
+      frameDelay: 40,
+      withoutResponse: true,
+    });
+
+    expect(pacing).toEqual({ window: 5, frameDelay: 80, withoutResponse: true });
+  });
+
+  it("adds a delay again after it reached zero", () => {
+    const pacing = onCongestion({
+      window: 8,
+      frameDelay: 0,
+      withoutResponse: true,
+    });
+
+    expect(pacing.frameDelay).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,270 @@
+import {
+  addChunk,
+  ChunkFrame,
+  crc32,
+  createReassembly,
+  decodeFrame,
+  encodeAckFrame,
+  encodeBinaryMessage,
+  encodeMessage,
+  encodeNackFrame,
+  Frame,
+  getMissingChunks,
+  PROTOCOL_VERSION,
+  reassemble,
+  StartFrame,
+} from "@/util/chunkCodec";
+
+// Decodes the frames of one message and puts its chunks back together
+const roundTrip = (frames: string[]): string => {
+  const [start, ...rest] = frames.map((frame) => decodeFrame(frame));
+  expect(start?.kind).toBe("start");
+
+  let messageInfo = createReassembly(start as StartFrame);
+  for (const frame of rest.slice(0, -1)) {
+    expect(frame?.kind).toBe("chunk");
+    messageInfo = addChunk(messageInfo, frame as ChunkFrame);
+  }
+  expect(rest[rest.length - 1]?.kind).toBe("end");
+
+  return reassemble(messageInfo);
+};
+
+describe("text frames", () => {
+  it("reassembles a message split into chunks", () => {
+    const frames = encodeMessage("Hello from the lagoon", 5, "text", "abc");
+
+    expect(frames[0]).toBe(`S:abc:5:t:${PROTOCOL_VERSION}`);
+    expect(frames[1]).toBe("C:abc:0:Hello");
+    expect(frames[frames.length - 1]).toBe("E:abc:5");
+    expect(roundTrip(frames)).toBe("Hello from the lagoon");
+  });
+
+  it("keeps whitespace at the edges of chunks", () => {
+    const message = "hello world foo bar";
+    const frames = encodeMessage(message, 6);
+
+    expect(frames).toContain(`C:${frames[0].substring(2, 5)}:1:world `);
+    expect(roundTrip(frames)).toBe(message);
+  });
+
+  it("keeps leading and trailing spaces of the whole message", () => {
+    const message = "  indented\n  lines  ";
+
+    expect(roundTrip(encodeMessage(message, 4))).toBe(message);
+  });
+
+  it("ignores line terminators after header frames", () => {
+    expect(decodeFrame("S:abc:2:t:6\r\n")).toMatchObject({
+      kind: "start",
+      totalChunks: 2,
+      messageType: "t",
+      version: 6,
+    });
+    expect(decodeFrame("E:abc:2\n")).toEqual({
+      kind: "end",
+      messageId: "abc",
+      totalChunks: 2,
+    });
+  });
+
+  it("reads the flags of a START frame", () => {
+    expect(decodeFrame("S:abc:3:fze:6")).toMatchObject({
+      messageType: "f",
+      compressed: true,
+      encrypted: true,
+      binary: false,
+    });
+  });
+
+  it("still produces START and END frames for an empty message", () => {
+    const frames = encodeMessage("", 10, "text", "abc");
+
+    expect(frames).toEqual([`S:abc:0:t:${PROTOCOL_VERSION}`, "E:abc:0"]);
+    expect(roundTrip(frames)).toBe("");
+  });
+
+  it("carries the group ID of group messages", () => {
+    const frames = encodeMessage(
+      "Regroup at the boathouse",
+      8,
+      "text",
+      "abc",
+      false,
+      false,
+      false,
+      "0a1b2c3d"
+    );
+
+    expect(frames[0]).toBe(`S:abc:3:t:${PROTOCOL_VERSION}:0a1b2c3d`);
+    expect(decodeFrame(frames[0])).toMatchObject({ groupId: "0a1b2c3d" });
+    expect(decodeFrame("S:abc:3:t:7")).toMatchObject({ groupId: null });
+  });
+
+  it("ignores group IDs before version 7 and malformed ones", () => {
+    expect(decodeFrame("S:abc:3:t:6:0a1b2c3d")).toMatchObject({
+      groupId: null,
+    });
+    expect(decodeFrame("S:abc:3:t:7:group")).toMatchObject({ groupId: null });
+  });
+});
+
+describe("binary frames", () => {
+  it("reassembles raw bytes, including ones that look like whitespace", () => {
+    const payload = String.fromCharCode(
+      0x20, 0x00, 0xff, 0x0a, 0x81, 0x0d, 0x7f, 0x20, 0x09
+    );
+    const frames = encodeBinaryMessage(payload, 3, "file", "abc", true);
+
+    expect(frames[0].charCodeAt(0)).toBe(0x81);
+    expect(decodeFrame(frames[0])).toMatchObject({
+      kind: "start",
+      totalChunks: 3,
+      messageType: "f",
+      compressed: true,
+      binary: true,
+    });
+    expect(roundTrip(frames)).toBe(payload);
+  });
+
+  it("carries the group ID of group messages", () => {
+    const [start] = encodeBinaryMessage(
+      "payload",
+      4,
+      "text",
+      "abc",
+      false,
+      false,
+      false,
+      "00ff0a20"
+    );
+
+    expect(decodeFrame(start)).toMatchObject({
+      kind: "start",
+      totalChunks: 2,
+      groupId: "00ff0a20",
+    });
+  });
+
+  it("rejects truncated frames", () => {
+    const [start] = encodeBinaryMessage("payload", 4, "text", "abc");
+
+    expect(decodeFrame(start.substring(0, 5))).toBeNull();
+  });
+});
+
+describe("legacy frames", () => {
+  it("maps 1-based chunk indices of version 0 to slots", () => {
+    const start = decodeFrame("S:abc:2:t") as StartFrame;
+    expect(start.version).toBe(0);
+
+    let messageInfo = createReassembly(start);
+    messageInfo = addChunk(
+      messageInfo,
+      decodeFrame("C:abc:2:bar") as ChunkFrame
+    );
+    expect(getMissingChunks(messageInfo)).toEqual([1]);
+
+    messageInfo = addChunk(
+      messageInfo,
+      decodeFrame("C:abc:1:foo") as ChunkFrame
+    );
+    expect(reassemble(messageInfo)).toBe("foobar");
+  });
+
+  it("drops chunks outside the message", () => {
+    const messageInfo = createReassembly(
+      decodeFrame("S:abc:1:t") as StartFrame
+    );
+
+    expect(addChunk(messageInfo, decodeFrame("C:abc:0:x") as ChunkFrame)).toBe(
+      messageInfo
+    );
+  });
+});
+
+describe("checksums", () => {
+  it("computes the IEEE CRC-32", () => {
+    expect(crc32("")).toBe(0);
+    expect(crc32("123456789")).toBe(0xcbf43926);
+    expect(crc32("The quick brown fox jumps over the lazy dog")).toBe(
+      0x414fa339
+    );
+  });
+
+  it("covers every byte value", () => {
+    expect(crc32("\u0000\u00ff\u0080")).not.toBe(crc32("\u0000\u00ff\u0081"));
+  });
+
+  it("carries the checksum in text END frames", () => {
+    const frames = encodeMessage("123456789", 4, "text", "abc", false, true);
+
+    expect(frames[frames.length - 1]).toBe("E:abc:3:cbf43926");
+    expect(decodeFrame(frames[frames.length - 1])).toEqual({
+      kind: "end",
+      messageId: "abc",
+      totalChunks: 3,
+      checksum: 0xcbf43926,
+    });
+  });
+
+  it("carries the checksum in binary END frames", () => {
+    const frames = encodeBinaryMessage(
+      "123456789",
+      4,
+      "text",
+      "abc",
+      false,
+      true
+    );
+
+    expect(decodeFrame(frames[frames.length - 1])).toMatchObject({
+      kind: "end",
+      checksum: 0xcbf43926,
+    });
+  });
+
+  it("rejects malformed checksums", () => {
+    expect(decodeFrame("E:abc:3:xyz")).toBeNull();
+  });
+});
+
+describe("control frames", () => {
+  it("encodes missing chunks as ranges", () => {
+    expect(encodeNackFrame("abc", [9, 1, 3, 4, 5])).toBe("N:abc:1,3-5,9");
+  });
+
+  it("leaves out ranges that do not fit", () => {
+    expect(encodeNackFrame("abc", [1, 3, 4, 5, 9], 12)).toBe("N:abc:1,3-5");
+  });
+
+  it("decodes ranges into wire indices", () => {
+    expect(decodeFrame("N:abc:1,3-5,9")).toEqual<Frame>({
+      kind: "nack",
+      messageId: "abc",
+      missingChunks: [1, 3, 4, 5, 9],
+    });
+  });
+
+  it("round-trips ACK frames", () => {
+    expect(decodeFrame(encodeAckFrame("abc"))).toEqual({
+      kind: "ack",
+      messageId: "abc",
+    });
+    expect(decodeFrame("X:abc")).toEqual({ kind: "abort", messageId: "abc" });
+  });
+
+  it.each([
+    "A:",
+    "A:abcd",
+    "A:Hi!",
+    "X:see you",
+    "N:ab:1",
+    "N:abc:",
+    "N:abc:1,x",
+    "N:abc:5-3",
+    "N:abc:1 and more",
+  ])("treats %p as plain text", (text) => {
+    expect(decodeFrame(text)).toBeNull();
+  });
+});
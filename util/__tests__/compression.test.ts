@@ -0,0 +1,53 @@
+import {
+  compressBytes,
+  compressPayload,
+  decompressBytes,
+  decompressPayload,
+} from "@/util/compression";
+
+const REPETITIVE_TEXT = "Water level at the north gauge: normal. ".repeat(10);
+
+describe("compressPayload", () => {
+  it("round-trips text through base64 deflate", () => {
+    const compressed = compressPayload(REPETITIVE_TEXT);
+
+    expect(compressed).not.toBeNull();
+    expect(compressed!.length).toBeLessThan(REPETITIVE_TEXT.length);
+    expect(decompressPayload(compressed!)).toBe(REPETITIVE_TEXT);
+  });
+
+  it("keeps text outside Latin-1", () => {
+    const message = "Niveau d'eau élevé 🌊 — 水位 ".repeat(10);
+
+    expect(decompressPayload(compressPayload(message)!)).toBe(message);
+  });
+
+  it("leaves short payloads alone", () => {
+    expect(compressPayload("Short message")).toBeNull();
+  });
+
+  it("leaves payloads alone that would not shrink", () => {
+    // Printable characters from a linear congruential generator
+    let seed = 42;
+    const noise = Array.from({ length: 200 }, () => {
+      seed = (seed * 1103515245 + 12345) % 2 ** 31;
+      return String.fromCharCode(33 + (seed % 94));
+    }).join("");
+
+    expect(compressPayload(noise)).toBeNull();
+  });
+});
+
+describe("compressBytes", () => {
+  it("round-trips raw bytes", () => {
+    const bytes = new Uint8Array(512).map((_, index) => index % 16);
+    const compressed = compressBytes(bytes);
+
+    expect(compressed).not.toBeNull();
+    expect(decompressBytes(compressed!)).toEqual(bytes);
+  });
+
+  it("leaves short payloads alone", () => {
+    expect(compressBytes(new Uint8Array(16))).toBeNull();
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  chachaXor,
+  computeTag,
+  decryptBytes,
+  decryptText,
+  encryptBytes,
+  encryptText,
+  getKeyFingerprint,
+  normalizeEncryptionKey,
+  poly1305,
+  Seal,
+} from "@/util/encryption";
+
+jest.mock("expo-crypto", () => {
+  const { createHash, randomBytes } = jest.requireActual("crypto");
+  return {
+    CryptoDigestAlgorithm: { SHA256: "SHA-256" },
+    getRandomBytes: (length: number) => new Uint8Array(randomBytes(length)),
+    digest: async (_algorithm: string, data: Uint8Array) =>
+      createHash("sha256").update(data).digest().buffer,
+  };
+});
+
+const fromHex = (hex: string): Uint8Array =>
+  Uint8Array.from(
+    hex.replace(/[\s:]/g, "").match(/../g) ?? [],
+    (byte) => parseInt(byte, 16)
+  );
+
+const toHex = (bytes: Uint8Array): string =>
+  Buffer.from(bytes).toString("hex");
+
+const SUNSCREEN = new TextEncoder().encode(
+  "Ladies and Gentlemen of the class of '99: If I could offer you only " +
+    "one tip for the future, sunscreen would be it."
+);
+
+// RFC 8439 test vectors
+describe("RFC 8439", () => {
+  it("encrypts with ChaCha20 (section 2.4.2)", () => {
+    const key = fromHex(
+      "000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f"
+    );
+    const nonce = fromHex("000000000000004a00000000");
+
+    expect(toHex(chachaXor(key, 1, nonce, SUNSCREEN))).toBe(
+      toHex(
+        fromHex(`
+          6e 2e 35 9a 25 68 f9 80 41 ba 07 28 dd 0d 69 81
+          e9 7e 7a ec 1d 43 60 c2 0a 27 af cc fd 9f ae 0b
+          f9 1b 65 c5 52 47 33 ab 8f 59 3d ab cd 62 b3 57
+          16 39 d6 24 e6 51 52 ab 8f 53 0c 35 9f 08 61 d8
+          07 ca 0d bf 50 0d 6a 61 56 a3 8e 08 8a 22 b6 5e
+          52 bc 51 4d 16 cc f8 06 81 8c e9 1a b7 79 37 36
+          5a f9 0b bf 74 a3 5b e6 b4 0b 8e ed f2 78 5e 42
+          87 4d
+        `)
+      )
+    );
+  });
+
+  it("authenticates with Poly1305 (section 2.5.2)", () => {
+    const key = fromHex(`
+      85:d6:be:78:57:55:6d:33:7f:44:52:fe:42:d5:06:a8
+      01:03:80:8a:fb:0d:b2:fd:4a:bf:f6:af:41:49:f5:1b
+    `);
+    const message = new TextEncoder().encode(
+      "Cryptographic Forum Research Group"
+    );
+
+    expect(toHex(poly1305(message, key))).toBe(
+      "a8061dc1305136c6c22b8baf0c0127a9"
+    );
+  });
+
+  it("reduces Poly1305 sums at and above the prime (appendix A.3)", () => {
+    const keyWithR = (r: number) => {
+      const key = new Uint8Array(32);
+      key[0] = r;
+      return key;
+    };
+
+    expect(toHex(poly1305(new Uint8Array(16).fill(0xff), keyWithR(2)))).toBe(
+      "03000000000000000000000000000000"
+    );
+    expect(
+      toHex(
+        poly1305(
+          fromHex("ff".repeat(16) + "fb" + "fe".repeat(15) + "01".repeat(16)),
+          keyWithR(1)
+        )
+      )
+    ).toBe("00000000000000000000000000000000");
+  });
+
+  it("seals with ChaCha20-Poly1305 (section 2.8.2)", () => {
+    const key = fromHex(
+      "808182838485868788898a8b8c8d8e8f909192939495969798999a9b9c9d9e9f"
+    );
+    const nonce = fromHex("070000004041424344454647");
+    const additionalData = fromHex("50515253c0c1c2c3c4c5c6c7");
+
+    const ciphertext = chachaXor(key, 1, nonce, SUNSCREEN);
+    expect(toHex(ciphertext)).toBe(
+      toHex(
+        fromHex(`
+          d3 1a 8d 34 64 8e 60 db 7b 86 af bc 53 ef 7e c2
+          a4 ad ed 51 29 6e 08 fe a9 e2 b5 a7 36 ee 62 d6
+          3d be a4 5e 8c a9 67 12 82 fa fb 69 da 92 72 8b
+          1a 71 de 0a 9e 06 0b 29 05 d6 a5 b6 7e cd 3b 36
+          92 dd bd 7f 2d 77 8b 8c 98 03 ae e3 28 09 1b 58
+          fa b3 24 e4 fa d6 75 94 55 85 80 8b 48 31 d7 bc
+          3f f4 de f0 8e 4b 7a 9d e5 76 d2 65 86 ce c6 4b
+          61 16
+        `)
+      )
+    );
+    expect(toHex(computeTag(key, nonce, additionalData, ciphertext))).toBe(
+      "1ae10b594f09e26a7e902ecbd0600691"
+    );
+  });
+});
+
+describe("sealed payloads", () => {
+  const seal: Seal = {
+    key: "42".repeat(32),
+    envelope: { sender: "0a1b2c3d", recipient: "4e5f6a7b" },
+  };
+
+  it("round-trips text", () => {
+    const payload = encryptText("Meet at the pier 🌊", "text", seal);
+
+    expect(decryptText(payload, "text", seal)).toBe("Meet at the pier 🌊");
+  });
+
+  it("uses a new nonce for every payload", () => {
+    expect(encryptText("Same text", "text", seal)).not.toBe(
+      encryptText("Same text", "text", seal)
+    );
+  });
+
+  it("rejects payloads sealed with another key", () => {
+    const sealed = encryptBytes(SUNSCREEN, "text", seal);
+
+    expect(() =>
+      decryptBytes(sealed, "text", { ...seal, key: "43".repeat(32) })
+    ).toThrow("failed authentication");
+  });
+
+  it("rejects changed payloads", () => {
+    const sealed = encryptBytes(SUNSCREEN, "text", seal);
+    sealed[20] ^= 1;
+
+    expect(() => decryptBytes(sealed, "text", seal)).toThrow();
+  });
+
+  it("binds the payload to its type and envelope", () => {
+    const sealed = encryptBytes(SUNSCREEN, "text", seal);
+
+    expect(() => decryptBytes(sealed, "file", seal)).toThrow();
+    expect(() =>
+      decryptBytes(sealed, "text", {
+        ...seal,
+        envelope: { sender: "4e5f6a7b", recipient: "0a1b2c3d" },
+      })
+    ).toThrow();
+    expect(() =>
+      decryptBytes(sealed, "text", { ...seal, envelope: null })
+    ).toThrow();
+  });
+
+  it("opens payloads of senders without an envelope", () => {
+    const legacySeal: Seal = { key: seal.key, envelope: null };
+    const sealed = encryptBytes(SUNSCREEN, "file", legacySeal);
+
+    expect(decryptBytes(sealed, "file", legacySeal)).toEqual(SUNSCREEN);
+  });
+});
+
+describe("keys", () => {
+  it("accepts keys typed with spaces and capitals", () => {
+    expect(normalizeEncryptionKey("AB CD\nef ")).toBe("abcdef");
+  });
+
+  it("shows the first 8 bytes of the key's SHA-256 as the fingerprint", async () => {
+    expect(await getKeyFingerprint("00".repeat(32))).toBe(
+      "6668 7AAD F862 BD77"
+    );
+  });
+});
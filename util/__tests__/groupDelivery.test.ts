@@ -0,0 +1,149 @@
+import { ChatMessage } from "@/util/contextChat";
+import {
+  getPendingRecipientIds,
+  getTransferIds,
+  toGroupId,
+  toGroupStatus,
+  withRecipientDelivery,
+  withTransfersDelivered,
+} from "@/util/groupDelivery";
+
+const groupMessage = (
+  recipients: ChatMessage["recipients"]
+): ChatMessage => ({
+  _id: "m1",
+  text: "Regroup at the boathouse",
+  createdAt: new Date(0),
+  user: { _id: 1 },
+  status: "queued",
+  recipients,
+});
+
+describe("toGroupStatus", () => {
+  it("is in progress while any member is", () => {
+    expect(
+      toGroupStatus([{ status: "delivered" }, { status: "sending" }])
+    ).toBe("sending");
+    expect(toGroupStatus([{ status: "failed" }, { status: "queued" }])).toBe(
+      "queued"
+    );
+  });
+
+  it("fails once nothing is in progress and a member failed", () => {
+    expect(toGroupStatus([{ status: "delivered" }, { status: "failed" }])).toBe(
+      "failed"
+    );
+  });
+
+  it("is delivered only when every member acknowledged", () => {
+    expect(toGroupStatus([{ status: "delivered" }, { status: "sent" }])).toBe(
+      "sent"
+    );
+    expect(
+      toGroupStatus([{ status: "delivered" }, { status: "delivered" }])
+    ).toBe("delivered");
+  });
+});
+
+describe("getPendingRecipientIds", () => {
+  it("lists the members still to send to, including failed ones", () => {
+    const message = groupMessage({
+      a: { status: "delivered", transferId: "x1a" },
+      b: { status: "sent", transferId: "x1b" },
+      c: { status: "failed" },
+      d: { status: "queued" },
+    });
+
+    expect(getPendingRecipientIds(message)).toEqual(["c", "d"]);
+  });
+
+  it("has none for direct messages", () => {
+    expect(getPendingRecipientIds(groupMessage(undefined))).toEqual([]);
+  });
+});
+
+describe("withRecipientDelivery", () => {
+  it("updates one member and sums up the status", () => {
+    const message = withRecipientDelivery(
+      groupMessage({ a: { status: "queued" }, b: { status: "sent" } }),
+      "a",
+      { status: "sent", transferId: "x1a" }
+    );
+
+    expect(message.recipients?.a).toEqual({
+      status: "sent",
+      transferId: "x1a",
+    });
+    expect(message.status).toBe("sent");
+  });
+
+  it("keeps a member delivered when its write completes late", () => {
+    const message = withRecipientDelivery(
+      groupMessage({ a: { status: "delivered", transferId: "x1a" } }),
+      "a",
+      { status: "sent", transferId: "x1a" }
+    );
+
+    expect(message.recipients?.a.status).toBe("delivered");
+    expect(message.status).toBe("delivered");
+  });
+});
+
+describe("withTransfersDelivered", () => {
+  it("marks the members that acknowledged a transfer", () => {
+    const message = withTransfersDelivered(
+      groupMessage({
+        a: { status: "sent", transferId: "x1a" },
+        b: { status: "sent", transferId: "x1b" },
+      }),
+      ["x1b", "zzz"]
+    );
+
+    expect(message.recipients?.a.status).toBe("sent");
+    expect(message.recipients?.b.status).toBe("delivered");
+    expect(message.status).toBe("sent");
+  });
+
+  it("leaves members whose transfer failed or was already confirmed", () => {
+    const message = groupMessage({
+      a: { status: "failed", transferId: "x1a" },
+      b: { status: "delivered", transferId: "x1a" },
+    });
+
+    expect(withTransfersDelivered(message, ["x1a"])).toBe(message);
+  });
+});
+
+describe("getTransferIds", () => {
+  it("collects the transfers of the message and of its members", () => {
+    const message = {
+      ...groupMessage({
+        a: { status: "sent", transferId: "x1a" },
+        b: { status: "queued" },
+      }),
+      transferId: "x0",
+    };
+
+    expect(getTransferIds(message)).toEqual(["x0", "x1a"]);
+  });
+});
+
+describe("toGroupId", () => {
+  it("is the same for every member of the group", () => {
+    const members = ["0a1b2c3d", "4e5f6a7b", "8c9d0e1f"];
+
+    expect(toGroupId(["4E5F6A7B", "8c9d0e1f", "0a1b2c3d"])).toBe(
+      toGroupId(members)
+    );
+    expect(toGroupId(["8c9d0e1f", "0a1b2c3d", "4e5f6a7b"])).toBe(
+      toGroupId(members)
+    );
+    expect(toGroupId(members)).toMatch(/^[0-9a-f]{8}$/);
+  });
+
+  it("differs between groups of different nodes", () => {
+    expect(toGroupId(["0a1b2c3d", "4e5f6a7b"])).not.toBe(
+      toGroupId(["0a1b2c3d", "4e5f6a7b", "8c9d0e1f"])
+    );
+  });
+});
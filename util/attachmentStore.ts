@@ -0,0 +1,110 @@
+import * as Crypto from "expo-crypto";
+import * as FileSystem from "expo-file-system";
+
+import { MESSAGE_PREFIXES } from "@/constants/Messages";
+
+// Files shared in chats, stored once per content under the SHA-256 of their
+// base64 data. Messages only hold a reference, so the content is read from
+// disk when it is opened or sent, never with the message list.
+
+const ATTACHMENT_DIRECTORY = `${FileSystem.documentDirectory}attachments/`;
+
+const MIME_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  txt: "text/plain",
+  json: "application/json",
+  mp3: "audio/mpeg",
+  mp4: "video/mp4",
+};
+
+export interface AttachmentRef {
+  hash: string;
+  name: string;
+  size: number; // Bytes
+  mimeType: string;
+}
+
+export const getMimeType = (filename: string): string =>
+  MIME_TYPES[filename.split(".").pop()?.toLowerCase() ?? ""] ??
+  "application/octet-stream";
+
+export const getAttachmentUri = (hash: string): string =>
+  `${ATTACHMENT_DIRECTORY}${hash}`;
+
+// Size of the data encoded in a base64 string
+const getDecodedSize = (base64Data: string): number => {
+  const padding = base64Data.endsWith("==")
+    ? 2
+    : base64Data.endsWith("=")
+    ? 1
+    : 0;
+  return (base64Data.length / 4) * 3 - padding;
+};
+
+// Text of a file message, which only names the file
+export const toFileMessageText = (name: string): string =>
+  `${MESSAGE_PREFIXES.FILE}${name}`;
+
+// Splits "FILE:<name>:<base64>" as received from the bridge, or the
+// "FILE_DATA:<name>:<base64>" text earlier versions stored for sent files
+export const parseFileMessage = (
+  text: string
+): { name: string; base64Data: string } | null => {
+  const prefix = [MESSAGE_PREFIXES.FILE_DATA, MESSAGE_PREFIXES.FILE].find(
+    (filePrefix) => text.startsWith(filePrefix)
+  );
+  const separator = prefix ? text.indexOf(":", prefix.length) : -1;
+  if (!prefix || separator === -1) {
+    return null;
+  }
+
+  const name = text.substring(prefix.length, separator);
+  const base64Data = text.substring(separator + 1);
+  return name && base64Data ? { name, base64Data } : null;
+};
+
+/**
+ * Writes a file to the store unless the same content is already there and
+ * returns the reference messages keep.
+ */
+export const storeAttachment = async (
+  name: string,
+  base64Data: string
+): Promise<AttachmentRef> => {
+  const hash = await Crypto.digestStringAsync(
+    Crypto.CryptoDigestAlgorithm.SHA256,
+    base64Data
+  );
+  const uri = getAttachmentUri(hash);
+
+  if (!(await FileSystem.getInfoAsync(uri)).exists) {
+    await FileSystem.makeDirectoryAsync(ATTACHMENT_DIRECTORY, {
+      intermediates: true,
+    });
+    await FileSystem.writeAsStringAsync(uri, base64Data, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+  }
+
+  return {
+    hash,
+    name,
+    size: getDecodedSize(base64Data),
+    mimeType: getMimeType(name),
+  };
+};
+
+export const readAttachment = (attachment: AttachmentRef): Promise<string> =>
+  FileSystem.readAsStringAsync(getAttachmentUri(attachment.hash), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+
+export const deleteAttachments = async (hashes: string[]): Promise<void> => {
+  for (const hash of hashes) {
+    await FileSystem.deleteAsync(getAttachmentUri(hash), { idempotent: true });
+  }
+};
@@ -0,0 +1,88 @@
+import { decode, encode } from "base-64";
+import { strFromU8, strToU8 } from "fflate";
+
+import { toMessageTypeCode } from "@/util/chunkCodec";
+import { compressBytes, decompressBytes } from "@/util/compression";
+import { Seal, decryptBytes, encryptBytes } from "@/util/encryption";
+
+// Payloads of messages sent in binary frames. Text is sent as UTF-8. Files,
+// which the app holds as "FILE:<name>:<base64>", are sent as the UTF-8 name,
+// a zero byte and the decoded file bytes, so their content is not inflated by
+// base64 on the way.
+
+const FILE_PREFIX = "FILE:";
+const NAME_SEPARATOR = 0;
+
+const isFileMessage = (message: string, messageType: string): boolean =>
+  toMessageTypeCode(messageType) === "f" && message.startsWith(FILE_PREFIX);
+
+const toPayloadBytes = (message: string, messageType: string): Uint8Array => {
+  if (!isFileMessage(message, messageType)) {
+    return strToU8(message);
+  }
+
+  const separator = message.indexOf(":", FILE_PREFIX.length);
+  if (separator === -1) {
+    return strToU8(message);
+  }
+
+  const name = strToU8(message.substring(FILE_PREFIX.length, separator));
+  const data = strToU8(decode(message.substring(separator + 1)), true);
+
+  const bytes = new Uint8Array(name.length + 1 + data.length);
+  bytes.set(name);
+  bytes[name.length] = NAME_SEPARATOR;
+  bytes.set(data, name.length + 1);
+  return bytes;
+};
+
+const fromPayloadBytes = (bytes: Uint8Array, messageType: string): string => {
+  const separator = bytes.indexOf(NAME_SEPARATOR);
+  if (toMessageTypeCode(messageType) !== "f" || separator === -1) {
+    return strFromU8(bytes);
+  }
+
+  const name = strFromU8(bytes.subarray(0, separator));
+  const data = encode(strFromU8(bytes.subarray(separator + 1), true));
+  return `${FILE_PREFIX}${name}:${data}`;
+};
+
+/**
+ * Turns a message into the byte string carried by binary CHUNK frames,
+ * deflated when that makes it smaller, then sealed when a key is given.
+ */
+export const encodeBinaryPayload = (
+  message: string,
+  messageType: string,
+  compress: boolean,
+  seal?: Seal
+): { payload: string; compressed: boolean } => {
+  const bytes = toPayloadBytes(message, messageType);
+  const compressedBytes = compress ? compressBytes(bytes) : null;
+  const plainBytes = compressedBytes ?? bytes;
+
+  return {
+    payload: strFromU8(
+      seal ? encryptBytes(plainBytes, messageType, seal) : plainBytes,
+      true
+    ),
+    compressed: compressedBytes !== null,
+  };
+};
+
+// Reverses encodeBinaryPayload
+export const decodeBinaryPayload = (
+  payload: string,
+  messageType: string,
+  compressed: boolean,
+  seal?: Seal
+): string => {
+  const payloadBytes = strToU8(payload, true);
+  const bytes = seal
+    ? decryptBytes(payloadBytes, messageType, seal)
+    : payloadBytes;
+  return fromPayloadBytes(
+    compressed ? decompressBytes(bytes) : bytes,
+    messageType
+  );
+};
@@ -0,0 +1,64 @@
+// Flow control for writing chunk frames to the bridge.
+//
+// Frames are sent in windows: when the message characteristic supports it,
+// all frames of a window but the last are written without response and the
+// last one with response, which only completes once the bridge has taken the
+// frames off the link. Without that support every frame is confirmed and the
+// window only paces the delay between frames.
+//
+// The window grows by one frame and the delay between frames shrinks after
+// every confirmed window. A failed write or a NACK from the receiver means the
+// bridge's buffer overflowed, so the window is halved and the delay doubled
+// (additive increase, multiplicative decrease).
+
+const INITIAL_WINDOW = 4;
+const MAX_WINDOW = 32;
+
+// Milliseconds between two frames
+const INITIAL_FRAME_DELAY = 30;
+const MIN_FRAME_DELAY = 0;
+const MAX_FRAME_DELAY = 500;
+const FRAME_DELAY_STEP = 5;
+
+// Retries of a single frame before the transfer fails
+export const MAX_WRITE_RETRIES = 5;
+
+export interface PacingState {
+  window: number; // Frames written per confirmed write
+  frameDelay: number;
+  withoutResponse: boolean; // Whether the characteristic allows it
+}
+
+export const createPacing = (withoutResponse: boolean): PacingState => ({
+  window: INITIAL_WINDOW,
+  frameDelay: INITIAL_FRAME_DELAY,
+  withoutResponse,
+});
+
+// Whether the frame has to be written with response. START and END are
+// always confirmed, so the receiver is known to be ready and done.
+export const needsConfirmation = (
+  pacing: PacingState,
+  framesSinceConfirmation: number,
+  isFirstOrLastFrame: boolean
+): boolean =>
+  !pacing.withoutResponse ||
+  isFirstOrLastFrame ||
+  framesSinceConfirmation + 1 >= pacing.window;
+
+// The bridge kept up with a whole window
+export const onWindowConfirmed = (pacing: PacingState): PacingState => ({
+  ...pacing,
+  window: Math.min(pacing.window + 1, MAX_WINDOW),
+  frameDelay: Math.max(pacing.frameDelay - FRAME_DELAY_STEP, MIN_FRAME_DELAY),
+});
+
+// The bridge's buffer overflowed or frames were lost
+export const onCongestion = (pacing: PacingState): PacingState => ({
+  ...pacing,
+  window: Math.max(Math.floor(pacing.window / 2), 1),
+  frameDelay: Math.min(
+    Math.max(pacing.frameDelay * 2, FRAME_DELAY_STEP),
+    MAX_FRAME_DELAY
+  ),
+});
@@ -0,0 +1,259 @@
+import { decode, encode } from "base-64";
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import { format } from "date-fns";
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+
+import { USER_IDS } from "@/constants/Messages";
+import { readAttachment, storeAttachment } from "@/util/attachmentStore";
+import { ChatMessage, ConfiguredChat, Contact } from "@/util/contextChat";
+import { toGroupStatus } from "@/util/groupDelivery";
+import { fromLegacyChat, LegacyChat } from "@/util/messageDatabase";
+
+// Exports of single chats, and backup archives of all chats. An archive is a
+// zip file with a JSON manifest of the contacts, the chats and their
+// messages, and the content of every shared file under attachments/<hash>.
+
+const BACKUP_FORMAT = "walora-backup";
+// Version 1 had no contacts, the node's details were part of each chat, and
+// version 2 no group chats
+const BACKUP_VERSION = 3;
+const BACKUP_MANIFEST = "backup.json";
+const ATTACHMENT_FOLDER = "attachments/";
+
+// Chats with their contacts and all their messages, oldest first
+export interface ChatBackup {
+  contacts: Contact[];
+  chats: ConfiguredChat[];
+  messages: { [chatId: string]: ChatMessage[] };
+}
+
+interface BackupManifest extends ChatBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+}
+
+interface LegacyBackupManifest
+  extends Omit<BackupManifest, "contacts" | "chats"> {
+  chats: LegacyChat[];
+}
+
+// File name part for a chat, without characters file systems reject
+const toFileName = (name: string): string =>
+  name.replace(/[^a-zA-Z0-9_-]+/g, "_");
+
+// Base64 as the file system reads and writes binary files
+const toBase64 = (bytes: Uint8Array): string => encode(strFromU8(bytes, true));
+
+const fromBase64 = (base64Data: string): Uint8Array =>
+  strToU8(decode(base64Data), true);
+
+const shareFile = async (
+  uri: string,
+  mimeType: string,
+  dialogTitle: string
+): Promise<void> => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing is not available on this device");
+  }
+  await Sharing.shareAsync(uri, { mimeType, dialogTitle });
+};
+
+// Name of a chat, the group's or that of its only member
+const getChatTitle = (chat: ConfiguredChat, members: Contact[]): string =>
+  chat.group?.name ?? members[0]?.name ?? chat.id;
+
+const getSenderName = (members: Contact[], message: ChatMessage): string => {
+  if (message.system) {
+    return "System";
+  }
+  if (message.user._id === USER_IDS.CURRENT) {
+    return "You";
+  }
+  const sender = message.senderId
+    ? members.find(({ id }) => id === message.senderId)
+    : members[0];
+  return sender?.name ?? message.user.name ?? "Unknown";
+};
+
+const toTranscriptLine = (
+  members: Contact[],
+  message: ChatMessage
+): string => {
+  const text = message.attachment
+    ? `[File] ${message.attachment.name}`
+    : message.text;
+  return `[${format(message.createdAt, "yyyy-MM-dd HH:mm")}] ${getSenderName(
+    members,
+    message
+  )}: ${text}`;
+};
+
+// Shares a chat as a plain-text transcript
+export const shareChatTranscript = async (
+  chat: ConfiguredChat,
+  members: Contact[],
+  messages: ChatMessage[]
+): Promise<void> => {
+  const title = getChatTitle(chat, members);
+  const uri = `${FileSystem.cacheDirectory}${toFileName(title)}.txt`;
+  const transcript = [
+    chat.group
+      ? `Group chat ${title} with ${members.map(({ name }) => name).join(", ")}`
+      : `Chat with ${title} (${members[0]?.macAddress})`,
+    `Exported ${format(new Date(), "yyyy-MM-dd HH:mm")}`,
+    "",
+    ...messages.map((message) => toTranscriptLine(members, message)),
+  ].join("\n");
+
+  await FileSystem.writeAsStringAsync(uri, transcript);
+  await shareFile(uri, "text/plain", `Export chat with ${title}`);
+};
+
+// Shares a chat with its contacts and messages as JSON. Files are only
+// referenced, and the encryption keys are left out, since exports are meant
+// to be passed on.
+export const shareChatJson = async (
+  chat: ConfiguredChat,
+  members: Contact[],
+  messages: ChatMessage[]
+): Promise<void> => {
+  const title = getChatTitle(chat, members);
+  const uri = `${FileSystem.cacheDirectory}${toFileName(title)}.json`;
+  const contacts = members.map(
+    ({ encryptionKey: _key, ...exportedContact }) => exportedContact
+  );
+
+  await FileSystem.writeAsStringAsync(
+    uri,
+    JSON.stringify({ chat, contacts, messages }, null, 2)
+  );
+  await shareFile(uri, "application/json", `Export chat with ${title}`);
+};
+
+/**
+ * Writes a backup archive of the chats, their messages and shared files, and
+ * shares it. Files missing from the attachment store are left out, so their
+ * messages restore without the file. Encryption keys are part of the
+ * contacts, so the archive has to be kept as safe as the device.
+ */
+export const shareBackup = async (backup: ChatBackup): Promise<void> => {
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    ...backup,
+  };
+  const files: { [path: string]: Uint8Array } = {
+    [BACKUP_MANIFEST]: strToU8(JSON.stringify(manifest)),
+  };
+
+  for (const messages of Object.values(backup.messages)) {
+    for (const { attachment } of messages) {
+      const path = ATTACHMENT_FOLDER + attachment?.hash;
+      if (!attachment || files[path]) {
+        continue;
+      }
+
+      try {
+        files[path] = fromBase64(await readAttachment(attachment));
+      } catch (error) {
+        console.warn(`Leaving ${attachment.name} out of the backup:`, error);
+      }
+    }
+  }
+
+  const uri = `${FileSystem.cacheDirectory}walora-backup-${format(
+    new Date(),
+    "yyyyMMdd-HHmm"
+  )}.zip`;
+  await FileSystem.writeAsStringAsync(uri, toBase64(zipSync(files)), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  await shareFile(uri, "application/zip", "Save backup");
+};
+
+// Messages, or group members, still waiting to be sent as failed ones
+const toRestoredMessage = (message: ChatMessage): ChatMessage => {
+  const isPending = (status?: ChatMessage["status"]) =>
+    status === "queued" || status === "sending";
+
+  if (message.recipients) {
+    const recipients = Object.fromEntries(
+      Object.entries(message.recipients).map(([contactId, delivery]) => [
+        contactId,
+        isPending(delivery.status)
+          ? { ...delivery, status: "failed" as const }
+          : delivery,
+      ])
+    );
+    return {
+      ...message,
+      recipients,
+      status: toGroupStatus(Object.values(recipients)),
+    };
+  }
+  return isPending(message.status) ? { ...message, status: "failed" } : message;
+};
+
+/**
+ * Reads a backup archive and writes its files to the attachment store.
+ * Messages that were still waiting to be sent restore as failed, since the
+ * outbound queue is not part of the backup.
+ */
+export const readBackup = async (uri: string): Promise<ChatBackup> => {
+  const entries = unzipSync(
+    fromBase64(
+      await FileSystem.readAsStringAsync(uri, {
+        encoding: FileSystem.EncodingType.Base64,
+      })
+    )
+  );
+  const manifestData = entries[BACKUP_MANIFEST];
+  const manifest: BackupManifest | LegacyBackupManifest | null = manifestData
+    ? JSON.parse(strFromU8(manifestData))
+    : null;
+  if (manifest?.format !== BACKUP_FORMAT) {
+    throw new Error("The file is not a WaLoRapp backup");
+  }
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error("The backup was made by a newer version of the app");
+  }
+
+  const messages: ChatBackup["messages"] = {};
+  for (const [chatId, chatMessages] of Object.entries(manifest.messages)) {
+    messages[chatId] = [];
+    for (const { attachment, ...message } of chatMessages) {
+      const content =
+        attachment && entries[ATTACHMENT_FOLDER + attachment.hash];
+      const restored = toRestoredMessage(message);
+
+      messages[chatId].push(
+        attachment && content
+          ? {
+              ...restored,
+              attachment: await storeAttachment(
+                attachment.name,
+                toBase64(content)
+              ),
+            }
+          : restored
+      );
+    }
+  }
+
+  if (manifest.version >= 2) {
+    const { contacts, chats } = manifest as BackupManifest;
+    return { contacts, chats, messages };
+  }
+
+  const legacyChats = (manifest as LegacyBackupManifest).chats.map(
+    fromLegacyChat
+  );
+  return {
+    contacts: legacyChats.map(({ contact }) => contact),
+    chats: legacyChats.map(({ chat }) => chat),
+    messages,
+  };
+};
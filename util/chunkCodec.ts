@@ -0,0 +1,755 @@
+// Chunk framing shared by the BLE send and receive paths.
+//
+// A message travels as one START frame, N CHUNK frames and one END frame:
+//
+//   S:<messageId>:<totalChunks>:<type>:<version>[:<groupId>]
+//   C:<messageId>:<chunkIndex>:<data>
+//   E:<messageId>:<totalChunks>[:<crc32>]
+//
+// A receiver that gets the END frame with chunks still missing answers with a
+// NACK frame listing them as comma-separated indices and ranges, and the
+// sender repeats just those chunks followed by the END frame:
+//
+//   N:<messageId>:<index>,<first>-<last>,...
+//
+// Once a message has been reassembled the receiver confirms it end to end
+// with an ACK frame, which the sender uses to mark the message delivered:
+//
+//   A:<messageId>
+//
+// A sender that gives up on a message part way through tells the receiver
+// with an ABORT frame, so it can discard the chunks received so far:
+//
+//   X:<messageId>
+//
+// NACK and ACK frames are only sent to peers that announced version 1 or
+// later, older builds would show them as plain text.
+//
+// From version 2 on the payload may be deflated and base64-encoded before it
+// is split into chunks, flagged by a "z" after the type in the START frame
+// (for example "fz" for a compressed file). Senders only compress for peers
+// that announced version 2 or later.
+//
+// From version 3 on START, CHUNK and END frames are sent in a binary format
+// to peers that announced it, so chunk data is carried as raw bytes instead of
+// text. Binary frames start with a byte that has the high bit set, which no
+// text frame does; numbers are big-endian:
+//
+//   START  0x81 <messageId:3> <totalChunks:3> <type:1> <flags:1> <version:1>
+//          [<groupId:4>]
+//   CHUNK  0x82 <messageId:3> <chunkIndex:3> <data>
+//   END    0x83 <messageId:3> <totalChunks:3> [<crc32:4>]
+//
+// Bit 0 of the flags marks a deflated payload. NACK, ACK and ABORT frames are
+// always text. Frames are handled as byte strings, one character per byte,
+// which is what the BLE write and notification values are decoded to.
+//
+// From version 4 on the END frame carries the CRC-32 of the payload as it was
+// chunked, in hex for text frames. The receiver checks it after reassembly and
+// asks for every chunk again when it does not match. Checksums are only sent
+// to peers that announced version 4 or later.
+//
+// From version 5 on the payload may be encrypted with a key the two endpoints
+// share, flagged by an "e" after the type and compression flag in text START
+// frames (for example "tze") and by bit 1 of the binary flags. Encryption is
+// applied after compression, so the checksum covers the encrypted payload.
+// Senders encrypt whenever the chat has a key, whatever version the peer
+// announced, so a message is never sent in clear by mistake.
+//
+// From version 6 on encrypted payloads are sealed in an envelope that names
+// the sending and the receiving node (see encryption.ts), so a receiver can
+// tell that a message really comes from the node it claims to. The frames
+// themselves are unchanged.
+//
+// From version 7 on the START frame of a group message ends with the ID of the
+// group, 8 hex digits in text frames and 4 bytes in binary ones, so the
+// receiver can show it in that group rather than in the chat with the sender.
+// Every member derives the same ID from the addresses in the group (see
+// groupDelivery.ts). It is not sealed, as it only picks which of the sender's
+// chats a message is shown in. Group IDs are only sent to peers that announced
+// version 7 or later.
+//
+// The bridge prefixes every frame it forwards from LoRa with the address of
+// the node that sent it, so messages can be told apart by sender:
+//
+//   @<address>:<frame>
+//
+// The address is the 8 hex digit MAC also used to configure endpoints. Frames
+// from bridges that do not add it have no known source.
+//
+// The version field was added after the first bridge firmware shipped. Frames
+// without it are treated as version 0, whose chunk indices are 1-based; from
+// version 1 on chunk indices are 0-based on the wire as well as in memory.
+
+export const PROTOCOL_VERSION = 7;
+const LEGACY_PROTOCOL_VERSION = 0;
+
+const COMPRESSION_VERSION = 2;
+const COMPRESSED_FLAG = "z";
+
+const BINARY_FRAMES_VERSION = 3;
+const BINARY_FRAME_BIT = 0x80;
+const BINARY_START = 0x81;
+const BINARY_CHUNK = 0x82;
+const BINARY_END = 0x83;
+const BINARY_COMPRESSED_BIT = 0x01;
+const BINARY_ENCRYPTED_BIT = 0x02;
+
+const CHECKSUM_VERSION = 4;
+const CHECKSUM_HEX_LENGTH = 8;
+const CHECKSUM_BYTES = 4;
+
+const ENCRYPTION_VERSION = 5;
+const ENCRYPTED_FLAG = "e";
+const ENVELOPE_VERSION = 6;
+
+const GROUP_VERSION = 7;
+const GROUP_ID_PATTERN = /^[0-9a-f]{8}$/;
+const GROUP_ID_BYTES = 4;
+
+export const MESSAGE_ID_LENGTH = 3;
+const MAX_CHUNK_INDEX_DIGITS = 5;
+
+// Number of NACK/resend cycles before a transfer is given up on
+export const MAX_REPAIR_ROUNDS = 3;
+
+// Worst-case size of the "C:<messageId>:<chunkIndex>:" prefix
+export const CHUNK_HEADER_OVERHEAD =
+  "C:".length + MESSAGE_ID_LENGTH + ":".length + MAX_CHUNK_INDEX_DIGITS + ":".length;
+
+// Size of the binary CHUNK header: kind, message ID and 3-byte index
+export const BINARY_CHUNK_HEADER_OVERHEAD = 1 + MESSAGE_ID_LENGTH + 3;
+
+export type MessageTypeCode = "t" | "f" | "c";
+
+export interface StartFrame {
+  kind: "start";
+  messageId: string;
+  totalChunks: number;
+  messageType: string;
+  compressed: boolean;
+  encrypted: boolean;
+  binary: boolean;
+  version: number;
+  groupId: string | null; // Group the message was sent to, from version 7 on
+}
+
+export interface ChunkFrame {
+  kind: "chunk";
+  messageId: string;
+  chunkIndex: number; // As sent on the wire, see toSlotIndex
+  data: string;
+}
+
+export interface EndFrame {
+  kind: "end";
+  messageId: string;
+  totalChunks: number;
+  checksum?: number; // CRC-32 of the payload, sent from version 4 on
+}
+
+export interface NackFrame {
+  kind: "nack";
+  messageId: string;
+  missingChunks: number[]; // Wire indices, in ascending order
+}
+
+export interface AckFrame {
+  kind: "ack";
+  messageId: string;
+}
+
+export interface AbortFrame {
+  kind: "abort";
+  messageId: string;
+}
+
+export type Frame =
+  | StartFrame
+  | ChunkFrame
+  | EndFrame
+  | NackFrame
+  | AckFrame
+  | AbortFrame;
+
+// Chunked message reassembly state
+export interface ChunkedMessageInfo {
+  chunks: (string | null)[];
+  totalChunks: number;
+  receivedChunks: number;
+  receivedBytes: number; // Payload received so far, frame headers excluded
+  messageType: string;
+  compressed: boolean;
+  encrypted: boolean; // Payload is sealed with the chat's key
+  binary: boolean; // Payload is raw bytes rather than message text
+  source: string | null; // Address of the sending node, if the bridge added it
+  groupId: string | null; // Group the message was sent to, if any
+  version: number;
+  repairRounds: number;
+  timestamp: number; // When the START frame arrived
+  updatedAt: number; // Last frame received for this message
+}
+
+// Short message ID (3 chars: random base36)
+export const createMessageId = (): string =>
+  Math.random()
+    .toString(36)
+    .substring(2, 2 + MESSAGE_ID_LENGTH)
+    .padEnd(MESSAGE_ID_LENGTH, "0");
+
+// Truncate message type to 1 char to save space
+export const toMessageTypeCode = (messageType: string): MessageTypeCode => {
+  const code = messageType.charAt(0);
+  return code === "f" || code === "c" ? code : "t";
+};
+
+export const encodeStartFrame = (
+  messageId: string,
+  totalChunks: number,
+  messageType: string,
+  compressed: boolean = false,
+  encrypted: boolean = false,
+  version: number = PROTOCOL_VERSION,
+  groupId: string | null = null
+): string =>
+  `S:${messageId}:${totalChunks}:${toMessageTypeCode(messageType)}${
+    compressed ? COMPRESSED_FLAG : ""
+  }${encrypted ? ENCRYPTED_FLAG : ""}:${version}${
+    groupId ? `:${groupId}` : ""
+  }`;
+
+export const encodeChunkFrame = (
+  messageId: string,
+  chunkIndex: number,
+  data: string
+): string => `C:${messageId}:${chunkIndex}:${data}`;
+
+export const encodeEndFrame = (
+  messageId: string,
+  totalChunks: number,
+  checksum?: number
+): string =>
+  checksum === undefined
+    ? `E:${messageId}:${totalChunks}`
+    : `E:${messageId}:${totalChunks}:${checksum
+        .toString(16)
+        .padStart(CHECKSUM_HEX_LENGTH, "0")}`;
+
+export const splitIntoChunks = (
+  message: string,
+  maxChunkSize: number
+): string[] => {
+  if (maxChunkSize < 1) {
+    throw new Error(`Invalid chunk size: ${maxChunkSize}`);
+  }
+
+  const chunks: string[] = [];
+  for (let start = 0; start < message.length; start += maxChunkSize) {
+    chunks.push(message.substring(start, start + maxChunkSize));
+  }
+  return chunks;
+};
+
+// Lookup table of the reflected IEEE polynomial, one entry per byte value
+const CRC32_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+// CRC-32 (IEEE) of a byte string, as carried by END frames
+export const crc32 = (data: string): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data.charCodeAt(i)) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Encodes a complete message as the ordered list of frames to transmit.
+ * An empty message still produces a START and an END frame.
+ */
+export const encodeMessage = (
+  message: string,
+  maxChunkSize: number,
+  messageType: string = "text",
+  messageId: string = createMessageId(),
+  compressed: boolean = false,
+  withChecksum: boolean = false,
+  encrypted: boolean = false,
+  groupId: string | null = null
+): string[] => {
+  const chunks = splitIntoChunks(message, maxChunkSize);
+  return [
+    encodeStartFrame(
+      messageId,
+      chunks.length,
+      messageType,
+      compressed,
+      encrypted,
+      PROTOCOL_VERSION,
+      groupId
+    ),
+    ...chunks.map((chunk, index) => encodeChunkFrame(messageId, index, chunk)),
+    encodeEndFrame(
+      messageId,
+      chunks.length,
+      withChecksum ? crc32(message) : undefined
+    ),
+  ];
+};
+
+const encodeUint24 = (value: number): string =>
+  String.fromCharCode((value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff);
+
+const decodeUint24 = (frame: string, offset: number): number =>
+  (frame.charCodeAt(offset) << 16) |
+  (frame.charCodeAt(offset + 1) << 8) |
+  frame.charCodeAt(offset + 2);
+
+const encodeUint32 = (value: number): string =>
+  String.fromCharCode(value >>> 24) + encodeUint24(value & 0xffffff);
+
+const decodeUint32 = (frame: string, offset: number): number =>
+  (frame.charCodeAt(offset) * 0x1000000 + decodeUint24(frame, offset + 1)) >>>
+  0;
+
+/**
+ * Splits a payload byte string into binary START, CHUNK and END frames, the
+ * binary counterpart of encodeMessage. maxChunkSize is in bytes.
+ */
+export const encodeBinaryMessage = (
+  payload: string,
+  maxChunkSize: number,
+  messageType: string = "text",
+  messageId: string = createMessageId(),
+  compressed: boolean = false,
+  withChecksum: boolean = false,
+  encrypted: boolean = false,
+  groupId: string | null = null
+): string[] => {
+  const chunks = splitIntoChunks(payload, maxChunkSize);
+  return [
+    String.fromCharCode(BINARY_START) +
+      messageId +
+      encodeUint24(chunks.length) +
+      toMessageTypeCode(messageType) +
+      String.fromCharCode(
+        (compressed ? BINARY_COMPRESSED_BIT : 0) |
+          (encrypted ? BINARY_ENCRYPTED_BIT : 0),
+        PROTOCOL_VERSION
+      ) +
+      (groupId ? encodeUint32(parseInt(groupId, 16)) : ""),
+    ...chunks.map(
+      (chunk, index) =>
+        String.fromCharCode(BINARY_CHUNK) +
+        messageId +
+        encodeUint24(index) +
+        chunk
+    ),
+    String.fromCharCode(BINARY_END) +
+      messageId +
+      encodeUint24(chunks.length) +
+      (withChecksum ? encodeUint32(crc32(payload)) : ""),
+  ];
+};
+
+// Collapses sorted indices into "3,5-9,12" form
+const formatIndexRanges = (indices: number[]): string[] => {
+  const ranges: string[] = [];
+  let i = 0;
+  while (i < indices.length) {
+    let j = i;
+    while (j + 1 < indices.length && indices[j + 1] === indices[j] + 1) {
+      j++;
+    }
+    ranges.push(j === i ? `${indices[i]}` : `${indices[i]}-${indices[j]}`);
+    i = j + 1;
+  }
+  return ranges;
+};
+
+/**
+ * Encodes a NACK frame for the given wire indices. Ranges that would push the
+ * frame past maxLength are left out; they are requested again in the next
+ * repair round once the first ones have arrived.
+ */
+export const encodeNackFrame = (
+  messageId: string,
+  missingChunks: number[],
+  maxLength: number = Infinity
+): string => {
+  const prefix = `N:${messageId}:`;
+  const sorted = [...missingChunks].sort((a, b) => a - b);
+
+  let frame = prefix;
+  for (const range of formatIndexRanges(sorted)) {
+    const next = frame === prefix ? frame + range : `${frame},${range}`;
+    if (next.length > maxLength && frame !== prefix) {
+      break;
+    }
+    frame = next;
+  }
+  return frame;
+};
+
+export const encodeAckFrame = (messageId: string): string => `A:${messageId}`;
+
+export const encodeAbortFrame = (messageId: string): string => `X:${messageId}`;
+
+// Whether the peer that sent a message understands NACK and ACK frames
+export const supportsControlFrames = (version: number): boolean =>
+  version > LEGACY_PROTOCOL_VERSION;
+
+// Whether a peer can decompress payloads flagged as compressed
+export const supportsCompression = (version: number): boolean =>
+  version >= COMPRESSION_VERSION;
+
+// Whether a peer can decode binary START, CHUNK and END frames
+export const supportsBinaryFrames = (version: number): boolean =>
+  version >= BINARY_FRAMES_VERSION;
+
+// Whether a peer accepts END frames that carry a checksum
+export const supportsChecksums = (version: number): boolean =>
+  version >= CHECKSUM_VERSION;
+
+// Whether a START frame of this version can flag an encrypted payload
+const supportsEncryption = (version: number): boolean =>
+  version >= ENCRYPTION_VERSION;
+
+// Whether encrypted payloads of this version are sealed in an envelope
+export const supportsEnvelopes = (version: number): boolean =>
+  version >= ENVELOPE_VERSION;
+
+// Whether a peer accepts START frames that carry a group ID
+export const supportsGroupIds = (version: number): boolean =>
+  version >= GROUP_VERSION;
+
+// Control frames share the "X:" form with ordinary text, so they are only
+// recognised when the whole frame matches their grammar
+const MESSAGE_ID_PATTERN = /^[0-9a-z]{3}$/;
+const NACK_FRAME_PATTERN = /^N:([0-9a-z]{3}):(\d+(?:-\d+)?(?:,\d+(?:-\d+)?)*)$/;
+
+const parseCount = (value: string | undefined): number | null => {
+  if (value === undefined || !/^\d+$/.test(value)) {
+    return null;
+  }
+  return parseInt(value, 10);
+};
+
+// "@<address>:" the bridge puts in front of frames it forwards from LoRa
+const SOURCE_ADDRESS_PATTERN = /^@([0-9a-fA-F]{8}):/;
+
+/**
+ * Splits the source address the bridge put in front of a frame from the frame
+ * itself. The address is lowercased, and null when there is none.
+ */
+export const splitSourceAddress = (
+  rawFrame: string
+): { source: string | null; frame: string } => {
+  const match = rawFrame.match(SOURCE_ADDRESS_PATTERN);
+  if (!match) {
+    return { source: null, frame: rawFrame };
+  }
+
+  return {
+    source: match[1].toLowerCase(),
+    frame: rawFrame.substring(match[0].length),
+  };
+};
+
+const decodeBinaryFrame = (frame: string): Frame | null => {
+  const kind = frame.charCodeAt(0);
+  const messageId = frame.substring(1, 1 + MESSAGE_ID_LENGTH);
+  const header = frame.substring(0, BINARY_CHUNK_HEADER_OVERHEAD);
+  if (
+    header.length < BINARY_CHUNK_HEADER_OVERHEAD ||
+    !/^[0-9a-z]+$/.test(messageId)
+  ) {
+    return null;
+  }
+
+  const count = decodeUint24(frame, 1 + MESSAGE_ID_LENGTH);
+
+  if (kind === BINARY_START) {
+    // START frame: 0x81 <messageId> <totalChunks> <type> <flags> <version>
+    // [<groupId>]
+    const groupOffset = BINARY_CHUNK_HEADER_OVERHEAD + 3;
+    const version = frame.charCodeAt(BINARY_CHUNK_HEADER_OVERHEAD + 2);
+    const grouped =
+      supportsGroupIds(version) &&
+      frame.length === groupOffset + GROUP_ID_BYTES;
+    if (frame.length !== groupOffset && !grouped) {
+      return null;
+    }
+
+    const flags = frame.charCodeAt(BINARY_CHUNK_HEADER_OVERHEAD + 1);
+    return {
+      kind: "start",
+      messageId,
+      totalChunks: count,
+      messageType: frame.charAt(BINARY_CHUNK_HEADER_OVERHEAD),
+      compressed: (flags & BINARY_COMPRESSED_BIT) !== 0,
+      encrypted:
+        supportsEncryption(version) && (flags & BINARY_ENCRYPTED_BIT) !== 0,
+      binary: true,
+      version,
+      groupId: grouped
+        ? decodeUint32(frame, groupOffset).toString(16).padStart(8, "0")
+        : null,
+    };
+  }
+
+  if (kind === BINARY_CHUNK) {
+    // CHUNK frame: 0x82 <messageId> <chunkIndex> <data>
+    return {
+      kind: "chunk",
+      messageId,
+      chunkIndex: count,
+      data: frame.substring(BINARY_CHUNK_HEADER_OVERHEAD),
+    };
+  }
+
+  if (kind === BINARY_END) {
+    // END frame: 0x83 <messageId> <totalChunks> [<crc32>]
+    if (frame.length === BINARY_CHUNK_HEADER_OVERHEAD) {
+      return { kind: "end", messageId, totalChunks: count };
+    }
+    if (frame.length === BINARY_CHUNK_HEADER_OVERHEAD + CHECKSUM_BYTES) {
+      return {
+        kind: "end",
+        messageId,
+        totalChunks: count,
+        checksum: decodeUint32(frame, BINARY_CHUNK_HEADER_OVERHEAD),
+      };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Decodes one raw frame. Returns null when the data is not a chunk frame,
+ * so callers can fall back to treating it as a plain message.
+ */
+export const decodeFrame = (rawFrame: string): Frame | null => {
+  // Binary frames may end in bytes that look like whitespace, so they are
+  // recognised before the text frames are trimmed
+  if (rawFrame.charCodeAt(0) & BINARY_FRAME_BIT) {
+    return decodeBinaryFrame(rawFrame);
+  }
+
+  // Chunk data may begin or end with whitespace that belongs to the message,
+  // so only the header of a CHUNK frame is trimmed
+  const line = rawFrame.trimStart();
+  const frame = line.startsWith("C:") ? line : line.trimEnd();
+
+  if (frame.startsWith("S:")) {
+    // START frame:
+    // S:<messageId>:<totalChunks>:<messageType>[:<version>[:<groupId>]]
+    const [, messageId, total, typeField, frameVersion, groupId] =
+      frame.split(":");
+    const totalChunks = parseCount(total);
+    if (!messageId || totalChunks === null || !typeField) {
+      return null;
+    }
+
+    const version = parseCount(frameVersion) ?? LEGACY_PROTOCOL_VERSION;
+    // Flags follow the type in the order they were added
+    const encrypted =
+      supportsEncryption(version) &&
+      typeField.length > 1 &&
+      typeField.endsWith(ENCRYPTED_FLAG);
+    const flaggedType = encrypted ? typeField.slice(0, -1) : typeField;
+    const compressed =
+      supportsCompression(version) &&
+      flaggedType.length > 1 &&
+      flaggedType.endsWith(COMPRESSED_FLAG);
+
+    return {
+      kind: "start",
+      messageId,
+      totalChunks,
+      messageType: compressed ? flaggedType.slice(0, -1) : flaggedType,
+      compressed,
+      encrypted,
+      binary: false,
+      version,
+      groupId:
+        supportsGroupIds(version) && GROUP_ID_PATTERN.test(groupId ?? "")
+          ? groupId
+          : null,
+    };
+  }
+
+  if (frame.startsWith("C:")) {
+    // CHUNK frame: C:<messageId>:<chunkIndex>:<data>
+    const firstColon = frame.indexOf(":", 2); // Find colon after "C:"
+    const secondColon = frame.indexOf(":", firstColon + 1); // Find next colon
+    if (firstColon === -1 || secondColon === -1) {
+      return null;
+    }
+
+    const chunkIndex = parseCount(frame.substring(firstColon + 1, secondColon));
+    if (chunkIndex === null) {
+      return null;
+    }
+
+    return {
+      kind: "chunk",
+      messageId: frame.substring(2, firstColon),
+      chunkIndex,
+      data: frame.substring(secondColon + 1), // Everything after second colon
+    };
+  }
+
+  if (frame.startsWith("E:")) {
+    // END frame: E:<messageId>:<totalChunks>[:<crc32>]
+    const [, messageId, total, checksum] = frame.split(":");
+    const totalChunks = parseCount(total);
+    if (!messageId || totalChunks === null) {
+      return null;
+    }
+
+    if (checksum === undefined) {
+      return { kind: "end", messageId, totalChunks };
+    }
+    if (!/^[0-9a-f]{8}$/.test(checksum)) {
+      return null;
+    }
+    return {
+      kind: "end",
+      messageId,
+      totalChunks,
+      checksum: parseInt(checksum, 16),
+    };
+  }
+
+  if (frame.startsWith("N:")) {
+    // NACK frame: N:<messageId>:<index>,<first>-<last>,...
+    const match = frame.match(NACK_FRAME_PATTERN);
+    if (!match) {
+      return null;
+    }
+
+    const [, messageId, ranges] = match;
+    const missingChunks: number[] = [];
+    for (const range of ranges.split(",")) {
+      const [first, last = first] = range
+        .split("-")
+        .map((bound) => parseInt(bound, 10));
+      if (last < first || last >= 10 ** MAX_CHUNK_INDEX_DIGITS) {
+        return null;
+      }
+      for (let index = first; index <= last; index++) {
+        missingChunks.push(index);
+      }
+    }
+
+    return { kind: "nack", messageId, missingChunks };
+  }
+
+  if (frame.startsWith("A:") || frame.startsWith("X:")) {
+    // ACK frame: A:<messageId>, ABORT frame: X:<messageId>
+    const messageId = frame.substring(2);
+    if (!MESSAGE_ID_PATTERN.test(messageId)) {
+      return null;
+    }
+
+    return { kind: frame.startsWith("A:") ? "ack" : "abort", messageId };
+  }
+
+  return null;
+};
+
+// CHUNK frames carry no version, so the wire index is mapped to an array slot
+// using the version announced by the message's START frame
+export const toSlotIndex = (chunkIndex: number, version: number): number =>
+  version === LEGACY_PROTOCOL_VERSION ? chunkIndex - 1 : chunkIndex;
+
+export const toWireIndex = (slotIndex: number, version: number): number =>
+  version === LEGACY_PROTOCOL_VERSION ? slotIndex + 1 : slotIndex;
+
+export const createReassembly = (
+  start: StartFrame,
+  source: string | null = null
+): ChunkedMessageInfo => ({
+  chunks: new Array(start.totalChunks).fill(null),
+  totalChunks: start.totalChunks,
+  receivedChunks: 0,
+  receivedBytes: 0,
+  messageType: start.messageType,
+  compressed: start.compressed,
+  encrypted: start.encrypted,
+  binary: start.binary,
+  source,
+  groupId: start.groupId,
+  version: start.version,
+  repairRounds: 0,
+  timestamp: Date.now(),
+  updatedAt: Date.now(),
+});
+
+/**
+ * Stores a chunk in its slot. Returns the same object when the chunk is out
+ * of range or a duplicate, so it can be used directly in a state updater.
+ */
+export const addChunk = (
+  messageInfo: ChunkedMessageInfo,
+  chunk: ChunkFrame
+): ChunkedMessageInfo => {
+  const chunkIndex = toSlotIndex(chunk.chunkIndex, messageInfo.version);
+  if (
+    chunkIndex < 0 ||
+    chunkIndex >= messageInfo.totalChunks ||
+    messageInfo.chunks[chunkIndex] !== null
+  ) {
+    return messageInfo;
+  }
+
+  const chunks = [...messageInfo.chunks];
+  chunks[chunkIndex] = chunk.data;
+
+  return {
+    ...messageInfo,
+    chunks,
+    receivedChunks: messageInfo.receivedChunks + 1,
+    receivedBytes: messageInfo.receivedBytes + chunk.data.length,
+    updatedAt: Date.now(),
+  };
+};
+
+// Fresh reassembly for a message whose chunks all have to be sent again
+export const resetReassembly = (
+  messageInfo: ChunkedMessageInfo
+): ChunkedMessageInfo => ({
+  ...messageInfo,
+  chunks: new Array(messageInfo.totalChunks).fill(null),
+  receivedChunks: 0,
+  receivedBytes: 0,
+  updatedAt: Date.now(),
+});
+
+export const isComplete = (messageInfo: ChunkedMessageInfo): boolean =>
+  messageInfo.receivedChunks === messageInfo.totalChunks;
+
+// Missing chunks as wire indices, ready to be put in a NACK frame
+export const getMissingChunks = (messageInfo: ChunkedMessageInfo): number[] =>
+  messageInfo.chunks.reduce<number[]>((missing, chunk, index) => {
+    if (chunk === null) {
+      missing.push(toWireIndex(index, messageInfo.version));
+    }
+    return missing;
+  }, []);
+
+export const reassemble = (messageInfo: ChunkedMessageInfo): string => {
+  if (!isComplete(messageInfo)) {
+    throw new Error(
+      `Cannot reassemble incomplete message: ${messageInfo.receivedChunks}/${messageInfo.totalChunks} chunks`
+    );
+  }
+  return messageInfo.chunks.join("");
+};
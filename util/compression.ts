@@ -0,0 +1,41 @@
+import { decode, encode } from "base-64";
+import { deflateSync, inflateSync, strFromU8, strToU8 } from "fflate";
+
+// Shorter payloads rarely shrink enough to be worth it
+const MIN_COMPRESSIBLE_LENGTH = 128;
+
+/**
+ * Deflates raw payload bytes. Returns null when the compressed form would not
+ * be smaller than the original.
+ */
+export const compressBytes = (bytes: Uint8Array): Uint8Array | null => {
+  if (bytes.length < MIN_COMPRESSIBLE_LENGTH) {
+    return null;
+  }
+
+  const compressed = deflateSync(bytes, { level: 9 });
+  return compressed.length < bytes.length ? compressed : null;
+};
+
+export const decompressBytes = (bytes: Uint8Array): Uint8Array =>
+  inflateSync(bytes);
+
+/**
+ * Deflates a message payload and base64-encodes the result, so it can travel
+ * in text chunk frames like any other text. Returns null when the compressed
+ * form would not be smaller than the original.
+ */
+export const compressPayload = (payload: string): string | null => {
+  if (payload.length < MIN_COMPRESSIBLE_LENGTH) {
+    return null;
+  }
+
+  const compressed = encode(
+    strFromU8(deflateSync(strToU8(payload), { level: 9 }), true)
+  );
+  return compressed.length < payload.length ? compressed : null;
+};
+
+// Reverses compressPayload
+export const decompressPayload = (payload: string): string =>
+  strFromU8(decompressBytes(strToU8(decode(payload), true)));
@@ -1,165 +1,800 @@
-import React, { createContext, useContext, useState, useEffect } from "react";
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useRef,
+} from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Crypto from "expo-crypto";
 import { IMessage } from "react-native-gifted-chat";
 
-export interface ConfiguredChat {
+import { USER_IDS } from "@/constants/Messages";
+import { AttachmentRef, deleteAttachments } from "@/util/attachmentStore";
+import { ChatBackup } from "@/util/chatBackup";
+import {
+  deleteChat,
+  insertMessages,
+  loadAllMessages,
+  loadChats,
+  loadContacts,
+  loadMessage,
+  loadMessagePosition,
+  loadMessages,
+  loadTransferChatIds,
+  markTransfersDelivered as markStoredTransfersDelivered,
+  saveChat,
+  saveContact,
+  searchMessages as searchStoredMessages,
+  updateMessage,
+} from "@/util/messageDatabase";
+
+// A node messages are exchanged with. The ID never changes, so the name and
+// endpoint can be edited without losing the chat.
+export interface Contact {
   id: string;
-  from: string;
-  deviceName: string;
+  name: string; // Shown in the app, edited freely
+  deviceName: string; // Endpoint name the bridge is configured with
   macAddress: string;
+  notes: string;
+  encryptionKey?: string; // Shared with the node, messages go in clear without
+}
+
+// Contacts of a group chat, each message is sent to every one of them
+export interface ChatGroup {
+  name: string;
+  memberIds: string[];
+}
+
+export interface ConfiguredChat {
+  id: string;
+  contactId?: string; // Contact of a direct chat, group chats have members
+  group?: ChatGroup;
   date: string;
-  img: string;
   msg: string;
   read: boolean;
-  unreadCount: number;
+  unreadCount: number; // Received messages since the chat was last opened
+}
+
+// Details of a contact that can be edited
+export type ContactChanges = Partial<
+  Pick<Contact, "name" | "deviceName" | "macAddress" | "notes">
+>;
+
+// Delivery state of an outgoing message
+export type MessageStatus =
+  | "queued" // Waiting for a bridge connection
+  | "sending" // Being written to the bridge
+  | "sent" // Accepted by the bridge
+  | "delivered" // Acknowledged by the remote endpoint
+  | "failed";
+
+// Delivery of a group message to one member
+export interface RecipientDelivery {
+  status: MessageStatus;
+  transferId?: string;
+}
+
+export interface ChatMessage extends IMessage {
+  status?: MessageStatus;
+  transferId?: string; // Chunk protocol message ID used on the wire
+  attachment?: AttachmentRef; // File shared by the message
+  unverified?: boolean; // Received for an encrypted chat without its seal
+  recipients?: { [contactId: string]: RecipientDelivery }; // Sent to a group
+  senderId?: string; // Contact that sent a message received in a group
+}
+
+// Search across all chats. Filters that are not set match every message.
+export interface MessageSearch {
+  query: string;
+  sender?: "sent" | "received";
+  contactId?: string; // Received from this contact, in its chat or a group
+  kind?: "text" | "file" | "location";
+}
+
+export interface MessageSearchResult {
+  chatId: string;
+  message: ChatMessage;
+}
+
+// What a restore added to the stored chats
+export interface RestoreResult {
+  chats: number;
+  messages: number;
+}
+
+// Node that messaged this one without being a contact. Its messages are held
+// until the user accepts it, so no other node can add chats on its own.
+export interface UnknownSender {
+  address: string;
+  messages: ChatMessage[]; // Oldest first
 }
 
+// Outgoing messages waiting to be transmitted, in send order per chat
+export type OutboundQueue = { [chatId: string]: IMessage["_id"][] };
+
 interface ChatContextType {
   configuredChats: ConfiguredChat[];
-  addConfiguredChat: (deviceName: string, macAddress: string) => Promise<void>;
+  contacts: Contact[];
+  chatsLoaded: boolean;
+  getConfiguredChats: () => ConfiguredChat[];
+  getContacts: () => Contact[];
+  getChatContact: (chatId: string) => Contact | undefined;
+  getChatMembers: (chatId: string) => Contact[];
+  updateContact: (contactId: string, changes: ContactChanges) => Promise<void>;
+  setContactEncryptionKey: (
+    contactId: string,
+    key: string | null
+  ) => Promise<void>;
+  addConfiguredChat: (
+    deviceName: string,
+    macAddress: string
+  ) => Promise<string>;
+  addGroupChat: (name: string, memberIds: string[]) => Promise<string>;
+  updateGroupChat: (chatId: string, group: ChatGroup) => Promise<void>;
   removeConfiguredChat: (chatId: string) => Promise<void>;
-  updateChatLastMessage: (chatId: string, message: string) => Promise<void>;
+  updateChatLastMessage: (
+    chatId: string,
+    message: string,
+    unreadMessages?: number
+  ) => Promise<void>;
+  markChatRead: (chatId: string) => Promise<void>;
   getConfiguredChat: (deviceId: string) => ConfiguredChat | undefined;
-  getChatMessages: (chatId: string) => Promise<IMessage[]>;
-  saveChatMessages: (chatId: string, messages: IMessage[]) => Promise<void>;
+  getChatMessages: (
+    chatId: string,
+    offset?: number,
+    limit?: number
+  ) => Promise<ChatMessage[]>;
+  getChatMessage: (
+    chatId: string,
+    messageId: IMessage["_id"]
+  ) => Promise<ChatMessage | null>;
+  getChatHistory: (chatId: string) => Promise<ChatMessage[]>;
+  getChatMessagePosition: (
+    chatId: string,
+    messageId: IMessage["_id"]
+  ) => Promise<number | null>;
+  searchMessages: (search: MessageSearch) => Promise<MessageSearchResult[]>;
+  addChatMessages: (chatId: string, messages: ChatMessage[]) => Promise<void>;
+  updateChatMessage: (
+    chatId: string,
+    messageId: IMessage["_id"],
+    updater: (message: ChatMessage) => ChatMessage
+  ) => Promise<void>;
+  markTransfersDelivered: (transferIds: string[]) => Promise<void>;
+  restoreChats: (backup: ChatBackup) => Promise<RestoreResult>;
+  messageRevisions: { [chatId: string]: number };
+  outboundQueue: OutboundQueue;
+  getOutboundQueue: () => OutboundQueue;
+  enqueueOutboundMessage: (
+    chatId: string,
+    messageId: IMessage["_id"]
+  ) => Promise<void>;
+  dequeueOutboundMessage: (
+    chatId: string,
+    messageId: IMessage["_id"]
+  ) => Promise<void>;
+  unknownSenders: UnknownSender[];
+  holdUnknownSenderMessage: (address: string, message: ChatMessage) => void;
+  acceptUnknownSender: (address: string) => Promise<string>;
+  ignoreUnknownSender: (address: string) => void;
 }
 
 const ChatContext = createContext<ChatContextType | undefined>(undefined);
 
-const STORAGE_KEY = "configured_chats";
-const MESSAGES_STORAGE_KEY = "chat_messages_";
+const OUTBOUND_QUEUE_STORAGE_KEY = "outbound_queue";
+
+// Messages loaded at once by getChatMessages
+export const MESSAGE_PAGE_SIZE = 30;
+
+// Name given to contacts created for nodes that message us first
+const UNKNOWN_SENDER_NAME = "Node";
+
+// Held messages are kept in memory only, so anyone transmitting can only fill
+// this much of it
+const MAX_UNKNOWN_SENDERS = 20;
+const MAX_HELD_MESSAGES = 50;
 
 export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({
   children,
 }) => {
   const [configuredChats, setConfiguredChats] = useState<ConfiguredChat[]>([]);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [chatsLoaded, setChatsLoaded] = useState(false);
+  // Chats can change several times before a re-render when messages for
+  // different chats arrive together, so updates start from the ref
+  const configuredChatsRef = useRef<ConfiguredChat[]>([]);
+  const contactsRef = useRef<Contact[]>([]);
+
+  // Bumped after every message write so open screens can reload
+  const [messageRevisions, setMessageRevisions] = useState<{
+    [chatId: string]: number;
+  }>({});
+  // Pending writes per chat, so concurrent updates never overwrite each other
+  const messageWrites = useRef<{ [chatId: string]: Promise<unknown> }>({});
+
+  // The ref is read by the queue drain loop, which runs across renders
+  const [outboundQueue, setOutboundQueue] = useState<OutboundQueue>({});
+  const outboundQueueRef = useRef<OutboundQueue>({});
+
+  // Several messages can be held before a re-render
+  const [unknownSenders, setUnknownSenders] = useState<UnknownSender[]>([]);
+  const unknownSendersRef = useRef<UnknownSender[]>([]);
 
   // Load configured chats from storage on app start
   useEffect(() => {
     loadConfiguredChats();
+    loadOutboundQueue();
   }, []);
 
   const loadConfiguredChats = async () => {
     try {
-      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      contactsRef.current = await loadContacts();
+      setContacts(contactsRef.current);
+      configuredChatsRef.current = await loadChats();
+      setConfiguredChats(configuredChatsRef.current);
+    } catch (error) {
+      console.error("Failed to load configured chats:", error);
+    } finally {
+      setChatsLoaded(true);
+    }
+  };
+
+  const loadOutboundQueue = async () => {
+    try {
+      const stored = await AsyncStorage.getItem(OUTBOUND_QUEUE_STORAGE_KEY);
       if (stored) {
-        setConfiguredChats(JSON.parse(stored));
+        outboundQueueRef.current = JSON.parse(stored);
+        setOutboundQueue(outboundQueueRef.current);
       }
     } catch (error) {
-      console.error("Failed to load configured chats:", error);
+      console.error("Failed to load outbound queue:", error);
+    }
+  };
+
+  const saveOutboundQueue = async (queue: OutboundQueue) => {
+    outboundQueueRef.current = queue;
+    setOutboundQueue(queue);
+    try {
+      await AsyncStorage.setItem(
+        OUTBOUND_QUEUE_STORAGE_KEY,
+        JSON.stringify(queue)
+      );
+    } catch (error) {
+      console.error("Failed to save outbound queue:", error);
+    }
+  };
+
+  // New chats are listed first
+  const saveConfiguredChat = async (chat: ConfiguredChat) => {
+    const chats = configuredChatsRef.current;
+    configuredChatsRef.current = chats.some(({ id }) => id === chat.id)
+      ? chats.map((configuredChat) =>
+          configuredChat.id === chat.id ? chat : configuredChat
+        )
+      : [chat, ...chats];
+    setConfiguredChats(configuredChatsRef.current);
+    try {
+      await saveChat(chat);
+    } catch (error) {
+      console.error("Failed to save configured chat:", error);
     }
   };
 
-  const saveConfiguredChats = async (chats: ConfiguredChat[]) => {
+  const saveContactRecord = async (contact: Contact) => {
+    const storedContacts = contactsRef.current;
+    contactsRef.current = storedContacts.some(({ id }) => id === contact.id)
+      ? storedContacts.map((storedContact) =>
+          storedContact.id === contact.id ? contact : storedContact
+        )
+      : [...storedContacts, contact];
+    setContacts(contactsRef.current);
     try {
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(chats));
+      await saveContact(contact);
     } catch (error) {
-      console.error("Failed to save configured chats:", error);
+      console.error("Failed to save contact:", error);
     }
   };
 
-  const addConfiguredChat = async (deviceName: string, macAddress: string) => {
-    const chatId = `${deviceName}_${macAddress}`
-      .toLowerCase()
-      .replace(/[^a-z0-9_]/g, "");
+  const findContactByAddress = (macAddress: string) =>
+    contactsRef.current.find(
+      (contact) =>
+        contact.macAddress.toLowerCase() === macAddress.toLowerCase()
+    );
+
+  /**
+   * Resolves with the ID of the chat with the endpoint, also when the chat
+   * already existed. A node that is already a contact keeps its contact, and
+   * with it its name, notes and key, under the new endpoint name.
+   */
+  const addConfiguredChat = async (
+    deviceName: string,
+    macAddress: string
+  ): Promise<string> => {
+    const existingContact = findContactByAddress(macAddress);
+    const contact: Contact = existingContact
+      ? { ...existingContact, deviceName }
+      : {
+          id: Crypto.randomUUID(),
+          name: deviceName,
+          deviceName,
+          macAddress,
+          notes: "",
+        };
+    if (!existingContact || existingContact.deviceName !== deviceName) {
+      await saveContactRecord(contact);
+    }
 
-    // Check if chat already exists
-    const existingChat = configuredChats.find((chat) => chat.id === chatId);
+    const existingChat = configuredChatsRef.current.find(
+      (chat) => !chat.group && chat.contactId === contact.id
+    );
     if (existingChat) {
-      console.log("Chat already exists:", chatId);
-      return;
+      console.log("Chat already exists:", existingChat.id);
+      return existingChat.id;
     }
 
     const newChat: ConfiguredChat = {
-      id: chatId,
-      from: deviceName,
-      deviceName,
-      macAddress,
+      id: Crypto.randomUUID(),
+      contactId: contact.id,
       date: new Date().toISOString(),
-      img: `https://i.pravatar.cc/150?u=${deviceName.toLowerCase()}`,
       msg: "Endpoint configured - ready to chat!",
       read: true,
       unreadCount: 0,
     };
 
-    const updatedChats = [newChat, ...configuredChats];
-    setConfiguredChats(updatedChats);
-    await saveConfiguredChats(updatedChats);
+    await saveConfiguredChat(newChat);
+    return newChat.id;
+  };
+
+  // Resolves with the ID of the new group chat
+  const addGroupChat = async (
+    name: string,
+    memberIds: string[]
+  ): Promise<string> => {
+    const newChat: ConfiguredChat = {
+      id: Crypto.randomUUID(),
+      group: { name, memberIds },
+      date: new Date().toISOString(),
+      msg: "Group created - ready to chat!",
+      read: true,
+      unreadCount: 0,
+    };
+
+    await saveConfiguredChat(newChat);
+    return newChat.id;
+  };
+
+  // Messages sent before keep the members they were sent to
+  const updateGroupChat = async (chatId: string, group: ChatGroup) => {
+    const chat = configuredChatsRef.current.find(({ id }) => id === chatId);
+    if (!chat?.group) {
+      return;
+    }
+
+    await saveConfiguredChat({ ...chat, group });
   };
 
   const removeConfiguredChat = async (chatId: string) => {
-    const updatedChats = configuredChats.filter((chat) => chat.id !== chatId);
-    setConfiguredChats(updatedChats);
-    await saveConfiguredChats(updatedChats);
-    
-    // Also remove the stored messages for this chat
+    configuredChatsRef.current = configuredChatsRef.current.filter(
+      (chat) => chat.id !== chatId
+    );
+    setConfiguredChats(configuredChatsRef.current);
+    contactsRef.current = contactsRef.current.filter(({ id }) =>
+      configuredChatsRef.current.some(
+        ({ contactId, group }) =>
+          contactId === id || !!group?.memberIds.includes(id)
+      )
+    );
+    setContacts(contactsRef.current);
+
+    // Also removes the stored messages and files of this chat, and the
+    // contacts no other chat has
     try {
-      await AsyncStorage.removeItem(MESSAGES_STORAGE_KEY + chatId);
+      await deleteAttachments(await deleteChat(chatId));
     } catch (error) {
-      console.error("Failed to remove chat messages:", error);
+      console.error("Failed to remove chat:", error);
+    }
+
+    if (outboundQueueRef.current[chatId]) {
+      const { [chatId]: _removed, ...remainingQueue } = outboundQueueRef.current;
+      await saveOutboundQueue(remainingQueue);
     }
   };
 
-  const updateChatLastMessage = async (chatId: string, message: string) => {
-    const updatedChats = configuredChats.map((chat) =>
-      chat.id === chatId
-        ? {
-            ...chat,
-            msg: message,
-            date: new Date().toISOString(),
-            read: false,
-            unreadCount: chat.unreadCount + 1,
-          }
-        : chat
+  // Only received messages count as unread, never sent or system messages
+  const updateChatLastMessage = async (
+    chatId: string,
+    message: string,
+    unreadMessages = 0
+  ) => {
+    const chat = configuredChatsRef.current.find(({ id }) => id === chatId);
+    if (!chat) {
+      return;
+    }
+
+    await saveConfiguredChat({
+      ...chat,
+      msg: message,
+      date: new Date().toISOString(),
+      read: chat.read && unreadMessages === 0,
+      unreadCount: chat.unreadCount + unreadMessages,
+    });
+  };
+
+  const markChatRead = async (chatId: string) => {
+    const chat = configuredChatsRef.current.find(({ id }) => id === chatId);
+    if (!chat || (chat.read && chat.unreadCount === 0)) {
+      return;
+    }
+
+    await saveConfiguredChat({ ...chat, read: true, unreadCount: 0 });
+  };
+
+  const getContacts = () => contactsRef.current;
+
+  // Only direct chats have a contact
+  const getChatContact = (chatId: string) => {
+    const chat = configuredChatsRef.current.find(({ id }) => id === chatId);
+    return chat?.contactId
+      ? contactsRef.current.find(({ id }) => id === chat.contactId)
+      : undefined;
+  };
+
+  // Members of a group chat, or the contact of a direct chat
+  const getChatMembers = (chatId: string): Contact[] => {
+    const chat = configuredChatsRef.current.find(({ id }) => id === chatId);
+    const memberIds = chat?.group?.memberIds ?? [chat?.contactId];
+    return contactsRef.current.filter(({ id }) => memberIds.includes(id));
+  };
+
+  const updateContact = async (contactId: string, changes: ContactChanges) => {
+    const contact = contactsRef.current.find(({ id }) => id === contactId);
+    if (!contact) {
+      return;
+    }
+
+    await saveContactRecord({ ...contact, ...changes });
+  };
+
+  // A null key turns encryption off for the contact
+  const setContactEncryptionKey = async (
+    contactId: string,
+    key: string | null
+  ) => {
+    const contact = contactsRef.current.find(({ id }) => id === contactId);
+    if (!contact) {
+      return;
+    }
+
+    const { encryptionKey: _previous, ...contactWithoutKey } = contact;
+    await saveContactRecord(
+      key ? { ...contactWithoutKey, encryptionKey: key } : contactWithoutKey
     );
-    setConfiguredChats(updatedChats);
-    await saveConfiguredChats(updatedChats);
   };
 
   const getConfiguredChat = (deviceId: string) => {
-    return configuredChats.find((chat) => 
-      chat.deviceName.toLowerCase() === deviceId.toLowerCase() ||
-      chat.id.toLowerCase() === deviceId.toLowerCase()
+    const contact = contacts.find(
+      ({ deviceName }) => deviceName.toLowerCase() === deviceId.toLowerCase()
+    );
+    return configuredChats.find(
+      (chat) =>
+        (!!contact && chat.contactId === contact.id) ||
+        chat.id.toLowerCase() === deviceId.toLowerCase()
     );
   };
 
-  const getChatMessages = async (chatId: string): Promise<IMessage[]> => {
+  // Newest first, a page at a time
+  const getChatMessages = async (
+    chatId: string,
+    offset = 0,
+    limit = MESSAGE_PAGE_SIZE
+  ): Promise<ChatMessage[]> => {
     try {
-      const stored = await AsyncStorage.getItem(MESSAGES_STORAGE_KEY + chatId);
-      if (stored) {
-        return JSON.parse(stored);
-      }
-      return [];
+      return await loadMessages(chatId, offset, limit);
     } catch (error) {
       console.error("Failed to load chat messages:", error);
       return [];
     }
   };
 
-  const saveChatMessages = async (chatId: string, messages: IMessage[]) => {
+  const getChatMessage = async (
+    chatId: string,
+    messageId: IMessage["_id"]
+  ): Promise<ChatMessage | null> => {
     try {
-      await AsyncStorage.setItem(MESSAGES_STORAGE_KEY + chatId, JSON.stringify(messages));
-      
-      // Update the latest message in the chat list
-      if (messages.length > 0) {
-        const latestMessage = messages[0]; // GiftedChat keeps the latest message at index 0
-        await updateChatLastMessage(chatId, latestMessage.text);
-      }
+      return await loadMessage(chatId, messageId);
     } catch (error) {
-      console.error("Failed to save chat messages:", error);
+      console.error("Failed to load chat message:", error);
+      return null;
+    }
+  };
+
+  // All messages of a chat, oldest first, for exports and backups
+  const getChatHistory = (chatId: string): Promise<ChatMessage[]> =>
+    loadAllMessages(chatId);
+
+  // Offset of the page that contains the message
+  const getChatMessagePosition = async (
+    chatId: string,
+    messageId: IMessage["_id"]
+  ): Promise<number | null> => {
+    try {
+      return await loadMessagePosition(chatId, messageId);
+    } catch (error) {
+      console.error("Failed to find chat message:", error);
+      return null;
+    }
+  };
+
+  const searchMessages = async (
+    search: MessageSearch
+  ): Promise<MessageSearchResult[]> => {
+    try {
+      return await searchStoredMessages(search);
+    } catch (error) {
+      console.error("Failed to search messages:", error);
+      return [];
+    }
+  };
+
+  const bumpMessageRevision = (chatId: string) =>
+    setMessageRevisions((prev) => ({
+      ...prev,
+      [chatId]: (prev[chatId] ?? 0) + 1,
+    }));
+
+  // Runs a message write after the pending writes of the same chat, so
+  // concurrent updates never overwrite each other
+  const writeChatMessages = <T,>(
+    chatId: string,
+    write: () => Promise<T>
+  ): Promise<T> => {
+    const pending = messageWrites.current[chatId] ?? Promise.resolve();
+    const result = pending.then(write, write);
+    messageWrites.current[chatId] = result.catch(() => undefined);
+    return result;
+  };
+
+  // Stores new messages, skipping those already stored, and updates the chat
+  // list. Only received messages count as unread.
+  const addChatMessages = (chatId: string, messages: ChatMessage[]) =>
+    writeChatMessages(chatId, async () => {
+      const inserted = await insertMessages(chatId, messages);
+      if (inserted.length === 0) {
+        return;
+      }
+
+      const latestMessage = inserted.reduce((latest, message) =>
+        new Date(message.createdAt) >= new Date(latest.createdAt)
+          ? message
+          : latest
+      );
+      const unreadMessages = inserted.filter(
+        (message) => message.user._id === USER_IDS.LORA_DEVICE
+      ).length;
+
+      await updateChatLastMessage(chatId, latestMessage.text, unreadMessages);
+      bumpMessageRevision(chatId);
+    });
+
+  const replaceUnknownSenders = (senders: UnknownSender[]) => {
+    unknownSendersRef.current = senders;
+    setUnknownSenders(senders);
+  };
+
+  // Keeps the newest messages of each sender. Senders beyond the limit are
+  // dropped until the user accepted or ignored some.
+  const holdUnknownSenderMessage = (address: string, message: ChatMessage) => {
+    const senders = unknownSendersRef.current;
+    const sender = senders.find((held) => held.address === address);
+    if (!sender && senders.length >= MAX_UNKNOWN_SENDERS) {
+      console.warn(`Dropped a message from unknown node ${address}`);
+      return;
+    }
+
+    const messages = [...(sender?.messages ?? []), message];
+    const updated = { address, messages: messages.slice(-MAX_HELD_MESSAGES) };
+    replaceUnknownSenders(
+      sender
+        ? senders.map((held) => (held === sender ? updated : held))
+        : [...senders, updated]
+    );
+  };
+
+  // Resolves with the ID of the new chat, which gets the held messages
+  const acceptUnknownSender = async (address: string): Promise<string> => {
+    const sender = unknownSendersRef.current.find(
+      (held) => held.address === address
+    );
+    replaceUnknownSenders(
+      unknownSendersRef.current.filter((held) => held !== sender)
+    );
+
+    const chatId = await addConfiguredChat(
+      `${UNKNOWN_SENDER_NAME} ${address}`,
+      address
+    );
+    if (sender) {
+      await addChatMessages(chatId, sender.messages);
+    }
+    return chatId;
+  };
+
+  // Drops the held messages. The node is held again when it sends more.
+  const ignoreUnknownSender = (address: string) =>
+    replaceUnknownSenders(
+      unknownSendersRef.current.filter((held) => held.address !== address)
+    );
+
+  // Read-modify-write of one stored message
+  const updateChatMessage = (
+    chatId: string,
+    messageId: IMessage["_id"],
+    updater: (message: ChatMessage) => ChatMessage
+  ) =>
+    writeChatMessages(chatId, async () => {
+      const message = await loadMessage(chatId, messageId);
+      if (!message) {
+        return;
+      }
+
+      await updateMessage(chatId, updater(message));
+      bumpMessageRevision(chatId);
+    });
+
+  const markTransfersDelivered = async (transferIds: string[]) => {
+    const chatIds = await loadTransferChatIds(transferIds);
+    await Promise.all(
+      chatIds.map((chatId) =>
+        writeChatMessages(chatId, async () => {
+          await markStoredTransfersDelivered(chatId, transferIds);
+          bumpMessageRevision(chatId);
+        })
+      )
+    );
+  };
+
+  /**
+   * Merges backed up chats into the stored ones. A contact that already
+   * exists, with the same ID or for the same node, keeps its details, and so
+   * does a chat with the same ID, or a direct chat with the same contact,
+   * which only gains the messages it does not have. Restored messages never
+   * count as unread.
+   */
+  const restoreChats = async (backup: ChatBackup): Promise<RestoreResult> => {
+    const result: RestoreResult = { chats: 0, messages: 0 };
+
+    // IDs the backed up contacts are stored under
+    const contactIds: { [backupId: string]: string } = {};
+    for (const contact of backup.contacts) {
+      const existingContact =
+        contactsRef.current.find(({ id }) => id === contact.id) ??
+        findContactByAddress(contact.macAddress);
+      if (!existingContact) {
+        await saveContactRecord(contact);
+      }
+      contactIds[contact.id] = existingContact?.id ?? contact.id;
     }
+
+    // Chats are listed newest first, so the oldest is added first
+    for (const chat of [...backup.chats].reverse()) {
+      const contactId = chat.contactId && contactIds[chat.contactId];
+      if (!chat.group && !contactId) {
+        continue;
+      }
+
+      // Restored messages never count as unread
+      const restoredChat: ConfiguredChat = chat.group
+        ? {
+            ...chat,
+            unreadCount: 0,
+            group: {
+              ...chat.group,
+              memberIds: chat.group.memberIds.flatMap((memberId) =>
+                contactIds[memberId] ? [contactIds[memberId]] : []
+              ),
+            },
+          }
+        : { ...chat, contactId, unreadCount: 0 };
+
+      const existingChat = configuredChatsRef.current.find(
+        (configuredChat) =>
+          configuredChat.id === chat.id ||
+          (!!contactId && configuredChat.contactId === contactId)
+      );
+      const chatId = existingChat?.id ?? chat.id;
+      if (!existingChat) {
+        await saveConfiguredChat(restoredChat);
+        result.chats++;
+      }
+
+      result.messages += await writeChatMessages(chatId, async () => {
+        const inserted = await insertMessages(
+          chatId,
+          backup.messages[chat.id] ?? []
+        );
+        if (inserted.length > 0) {
+          bumpMessageRevision(chatId);
+        }
+        return inserted.length;
+      });
+    }
+
+    return result;
+  };
+
+  const getConfiguredChats = () => configuredChatsRef.current;
+
+  const getOutboundQueue = () => outboundQueueRef.current;
+
+  const enqueueOutboundMessage = async (
+    chatId: string,
+    messageId: IMessage["_id"]
+  ) => {
+    const chatQueue = outboundQueueRef.current[chatId] ?? [];
+    if (chatQueue.includes(messageId)) {
+      return;
+    }
+
+    await saveOutboundQueue({
+      ...outboundQueueRef.current,
+      [chatId]: [...chatQueue, messageId],
+    });
+  };
+
+  const dequeueOutboundMessage = async (
+    chatId: string,
+    messageId: IMessage["_id"]
+  ) => {
+    const chatQueue = outboundQueueRef.current[chatId] ?? [];
+    const remaining = chatQueue.filter((queuedId) => queuedId !== messageId);
+    if (remaining.length === chatQueue.length) {
+      return;
+    }
+
+    const { [chatId]: _removed, ...otherChats } = outboundQueueRef.current;
+    await saveOutboundQueue(
+      remaining.length > 0 ? { ...otherChats, [chatId]: remaining } : otherChats
+    );
   };
 
   return (
     <ChatContext.Provider
       value={{
         configuredChats,
+        contacts,
+        chatsLoaded,
+        getConfiguredChats,
+        getContacts,
+        getChatContact,
+        getChatMembers,
+        updateContact,
+        setContactEncryptionKey,
         addConfiguredChat,
+        addGroupChat,
+        updateGroupChat,
         removeConfiguredChat,
         updateChatLastMessage,
+        markChatRead,
         getConfiguredChat,
         getChatMessages,
-        saveChatMessages,
+        getChatMessage,
+        getChatHistory,
+        getChatMessagePosition,
+        searchMessages,
+        addChatMessages,
+        updateChatMessage,
+        markTransfersDelivered,
+        restoreChats,
+        messageRevisions,
+        outboundQueue,
+        getOutboundQueue,
+        enqueueOutboundMessage,
+        dequeueOutboundMessage,
+        unknownSenders,
+        holdUnknownSenderMessage,
+        acceptUnknownSender,
+        ignoreUnknownSender,
       }}
     >
       {children}
@@ -0,0 +1,26 @@
+import { Contact } from "@/util/contextChat";
+
+// Links that open the app, under the scheme declared in app.json. Expo Router
+// maps them to the routes of the same path:
+//
+//   walorapp://add?name=<name>&mac=<mac>   app/add.tsx, opens the new chat form
+//   walorapp://chat/<mac>                  app/chat/[id].tsx, opens the chat
+//
+// The scheme is written out rather than taken from expo-linking, which gives
+// development builds a different one, so shared links work in every build.
+
+const LINK_SCHEME = "walorapp";
+
+// Link that adds the contact's endpoint on another phone
+export const createAddEndpointLink = ({
+  deviceName,
+  macAddress,
+}: Contact): string =>
+  `${LINK_SCHEME}://add?name=${encodeURIComponent(
+    deviceName
+  )}&mac=${encodeURIComponent(macAddress)}`;
+
+// Link that opens the chat with the contact's node on a phone that has one.
+// Chat IDs differ between phones, so the link names the node.
+export const createChatLink = ({ macAddress }: Contact): string =>
+  `${LINK_SCHEME}://chat/${encodeURIComponent(macAddress)}`;
@@ -0,0 +1,377 @@
+import * as Crypto from "expo-crypto";
+import { decode, encode } from "base-64";
+import { strFromU8, strToU8 } from "fflate";
+
+import { toMessageTypeCode } from "@/util/chunkCodec";
+
+// End-to-end encryption of message payloads with a key both endpoints of a
+// chat share in advance. Payloads are sealed with ChaCha20-Poly1305 (RFC 8439)
+// before they are split into chunks, so the bridges and anyone listening on
+// LoRa only see the ciphertext. expo-crypto has no ciphers, so the cipher is
+// implemented here and expo-crypto supplies the random keys and nonces.
+//
+// A sealed payload is the 12-byte nonce, the ciphertext and the 16-byte tag.
+// The message type code and the envelope, the addresses of the sending and
+// the receiving node, are authenticated along with it. Only the two holders of
+// a chat's key can seal a payload that opens, and a payload cannot be passed
+// off as another type, as coming from another node or as a reply by sending it
+// back to where it came from. Senders of protocol version 5 sealed payloads
+// without an envelope; those still open, but do not prove where they came
+// from.
+//
+// Payloads are sealed on the JS thread, as there is no worker to hand them to.
+// Files of up to 5 MB are sealed in one go, so Poly1305 runs on 13-bit limbs
+// in plain numbers: BigInt allocates on every step, which made sealing a
+// large file stall the UI.
+
+const KEY_BYTES = 32;
+const NONCE_BYTES = 12;
+const TAG_BYTES = 16;
+const BLOCK_BYTES = 64;
+
+const KEY_PATTERN = /^[0-9a-f]{64}$/;
+
+// "expand 32-byte k"
+const SIGMA = [0x61707865, 0x3320646e, 0x79622d32, 0x6b206574];
+
+const readUint32 = (bytes: Uint8Array, offset: number): number =>
+  (bytes[offset] |
+    (bytes[offset + 1] << 8) |
+    (bytes[offset + 2] << 16) |
+    (bytes[offset + 3] << 24)) >>>
+  0;
+
+const rotate = (value: number, bits: number): number =>
+  (value << bits) | (value >>> (32 - bits));
+
+const quarterRound = (
+  state: Uint32Array,
+  a: number,
+  b: number,
+  c: number,
+  d: number
+): void => {
+  state[a] += state[b];
+  state[d] = rotate(state[d] ^ state[a], 16);
+  state[c] += state[d];
+  state[b] = rotate(state[b] ^ state[c], 12);
+  state[a] += state[b];
+  state[d] = rotate(state[d] ^ state[a], 8);
+  state[c] += state[d];
+  state[b] = rotate(state[b] ^ state[c], 7);
+};
+
+// One 64-byte ChaCha20 keystream block
+const chachaBlock = (
+  key: Uint8Array,
+  counter: number,
+  nonce: Uint8Array
+): Uint8Array => {
+  const initial = new Uint32Array(16);
+  initial.set(SIGMA);
+  for (let i = 0; i < 8; i++) {
+    initial[4 + i] = readUint32(key, i * 4);
+  }
+  initial[12] = counter;
+  for (let i = 0; i < 3; i++) {
+    initial[13 + i] = readUint32(nonce, i * 4);
+  }
+
+  const state = initial.slice();
+  for (let round = 0; round < 10; round++) {
+    quarterRound(state, 0, 4, 8, 12);
+    quarterRound(state, 1, 5, 9, 13);
+    quarterRound(state, 2, 6, 10, 14);
+    quarterRound(state, 3, 7, 11, 15);
+    quarterRound(state, 0, 5, 10, 15);
+    quarterRound(state, 1, 6, 11, 12);
+    quarterRound(state, 2, 7, 8, 13);
+    quarterRound(state, 3, 4, 9, 14);
+  }
+  for (let i = 0; i < 16; i++) {
+    state[i] += initial[i];
+  }
+
+  // The platforms React Native runs on are all little-endian
+  return new Uint8Array(state.buffer);
+};
+
+// XORs data with the keystream starting at the given block counter
+export const chachaXor = (
+  key: Uint8Array,
+  counter: number,
+  nonce: Uint8Array,
+  data: Uint8Array
+): Uint8Array => {
+  const output = new Uint8Array(data.length);
+  for (let offset = 0; offset < data.length; offset += BLOCK_BYTES) {
+    const block = chachaBlock(key, counter++, nonce);
+    const end = Math.min(offset + BLOCK_BYTES, data.length);
+    for (let i = offset; i < end; i++) {
+      output[i] = data[i] ^ block[i - offset];
+    }
+  }
+  return output;
+};
+
+// Poly1305 works on 130-bit numbers, kept here as ten 13-bit limbs so every
+// product and sum stays exact in a double. Limbs that overflow 2^130 wrap
+// around multiplied by 5, since 2^130 = 5 modulo the prime 2^130 - 5.
+const LIMBS = 10;
+const LIMB_BITS = 13;
+const LIMB_BASE = 1 << LIMB_BITS;
+
+// Splits a little-endian number of up to 17 bytes, zero-padded to 19, into
+// limbs
+const toLimbs = (bytes: Uint8Array, limbs: Float64Array): void => {
+  for (let i = 0; i < LIMBS; i++) {
+    const bit = i * LIMB_BITS;
+    const offset = bit >>> 3;
+    const window =
+      bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+    limbs[i] = (window >>> (bit & 7)) & (LIMB_BASE - 1);
+  }
+};
+
+// Moves everything above 13 bits of each limb into the next one
+const carry = (limbs: Float64Array): void => {
+  for (let pass = 0; pass < 2; pass++) {
+    let overflow = 0;
+    for (let i = 0; i < LIMBS; i++) {
+      const value = limbs[i] + overflow;
+      overflow = Math.floor(value / LIMB_BASE);
+      limbs[i] = value - overflow * LIMB_BASE;
+    }
+    limbs[0] += overflow * 5;
+  }
+};
+
+export const poly1305 = (
+  message: Uint8Array,
+  oneTimeKey: Uint8Array
+): Uint8Array => {
+  const block = new Uint8Array(19);
+  block.set(oneTimeKey.subarray(0, 16));
+  for (const i of [3, 7, 11, 15]) block[i] &= 0x0f;
+  for (const i of [4, 8, 12]) block[i] &= 0xfc;
+  const r = new Float64Array(LIMBS);
+  toLimbs(block, r);
+  const r5 = r.map((limb) => limb * 5);
+
+  const h = new Float64Array(LIMBS);
+  const value = new Float64Array(LIMBS);
+  const product = new Float64Array(LIMBS);
+  for (let offset = 0; offset < message.length; offset += 16) {
+    const chunk = message.subarray(offset, offset + 16);
+    block.fill(0);
+    block.set(chunk);
+    block[chunk.length] = 1;
+    toLimbs(block, value);
+    for (let i = 0; i < LIMBS; i++) h[i] += value[i];
+
+    for (let i = 0; i < LIMBS; i++) {
+      let sum = 0;
+      for (let j = 0; j <= i; j++) sum += h[j] * r[i - j];
+      for (let j = i + 1; j < LIMBS; j++) sum += h[j] * r5[LIMBS + i - j];
+      product[i] = sum;
+    }
+    carry(product);
+    h.set(product);
+  }
+  carry(h);
+
+  // h is now below 2^130, but may still be at or above the prime
+  const reduced = h.slice();
+  reduced[0] += 5;
+  let overflow = 0;
+  for (let i = 0; i < LIMBS; i++) {
+    const sum = reduced[i] + overflow;
+    overflow = sum >>> LIMB_BITS;
+    reduced[i] = sum & (LIMB_BASE - 1);
+  }
+  if (overflow) h.set(reduced);
+
+  // The tag is h + s modulo 2^128
+  const tag = new Uint8Array(TAG_BYTES);
+  let bits = 0;
+  let pending = 0;
+  let limb = 0;
+  let sum = 0;
+  for (let i = 0; i < TAG_BYTES; i++) {
+    while (bits < 8) {
+      pending |= h[limb++] << bits;
+      bits += LIMB_BITS;
+    }
+    sum += (pending & 0xff) + oneTimeKey[16 + i];
+    tag[i] = sum & 0xff;
+    sum >>>= 8;
+    pending >>>= 8;
+    bits -= 8;
+  }
+  return tag;
+};
+
+// Additional data and ciphertext, each padded to 16 bytes, then both lengths
+const toMacData = (
+  additionalData: Uint8Array,
+  ciphertext: Uint8Array
+): Uint8Array => {
+  const pad = (length: number) => (16 - (length % 16)) % 16;
+  const ciphertextOffset = additionalData.length + pad(additionalData.length);
+  const lengthsOffset =
+    ciphertextOffset + ciphertext.length + pad(ciphertext.length);
+
+  const data = new Uint8Array(lengthsOffset + 16);
+  data.set(additionalData);
+  data.set(ciphertext, ciphertextOffset);
+  const lengths = new DataView(data.buffer, lengthsOffset);
+  lengths.setUint32(0, additionalData.length, true);
+  lengths.setUint32(8, ciphertext.length, true);
+  return data;
+};
+
+// Poly1305 tag of the AEAD construction, keyed with the first keystream block
+export const computeTag = (
+  key: Uint8Array,
+  nonce: Uint8Array,
+  additionalData: Uint8Array,
+  ciphertext: Uint8Array
+): Uint8Array =>
+  poly1305(
+    toMacData(additionalData, ciphertext),
+    chachaBlock(key, 0, nonce).subarray(0, 32)
+  );
+
+const toKeyBytes = (key: string): Uint8Array => {
+  if (!isValidEncryptionKey(key)) {
+    throw new Error("Invalid encryption key");
+  }
+
+  const bytes = new Uint8Array(KEY_BYTES);
+  for (let i = 0; i < KEY_BYTES; i++) {
+    bytes[i] = parseInt(key.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+};
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+// Nodes a sealed payload is from and for, as lowercase addresses
+export interface Envelope {
+  sender: string;
+  recipient: string;
+}
+
+// What a payload is sealed with. The envelope is null for payloads from
+// senders that did not use one yet.
+export interface Seal {
+  key: string;
+  envelope: Envelope | null;
+}
+
+const toAdditionalData = (
+  messageType: string,
+  envelope: Envelope | null
+): Uint8Array => {
+  const typeCode = toMessageTypeCode(messageType);
+  return strToU8(
+    envelope ? `${typeCode}:${envelope.sender}:${envelope.recipient}` : typeCode
+  );
+};
+
+// Keys are written as 64 hex digits. Spaces and case do not matter when a key
+// is typed in.
+export const normalizeEncryptionKey = (key: string): string =>
+  key.replace(/\s+/g, "").toLowerCase();
+
+export const isValidEncryptionKey = (key: string): boolean =>
+  KEY_PATTERN.test(key);
+
+export const generateEncryptionKey = (): string =>
+  toHex(Crypto.getRandomBytes(KEY_BYTES));
+
+/**
+ * Short digest of a key for the two parties to compare out of band, such as
+ * "3F2A 91BC 0D4E 7A11". Equal fingerprints mean equal keys, without the key
+ * itself ever being shown.
+ */
+export const getKeyFingerprint = async (key: string): Promise<string> => {
+  const digest = new Uint8Array(
+    await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, toKeyBytes(key))
+  );
+  return toHex(digest.subarray(0, 8))
+    .toUpperCase()
+    .replace(/(.{4})(?!$)/g, "$1 ");
+};
+
+export const encryptBytes = (
+  plaintext: Uint8Array,
+  messageType: string,
+  { key, envelope }: Seal
+): Uint8Array => {
+  const keyBytes = toKeyBytes(key);
+  const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+  const ciphertext = chachaXor(keyBytes, 1, nonce, plaintext);
+  const tag = computeTag(
+    keyBytes,
+    nonce,
+    toAdditionalData(messageType, envelope),
+    ciphertext
+  );
+
+  const sealed = new Uint8Array(NONCE_BYTES + ciphertext.length + TAG_BYTES);
+  sealed.set(nonce);
+  sealed.set(ciphertext, NONCE_BYTES);
+  sealed.set(tag, NONCE_BYTES + ciphertext.length);
+  return sealed;
+};
+
+// Reverses encryptBytes. Throws when the payload was not sealed with this key
+// and envelope, or was changed on the way.
+export const decryptBytes = (
+  sealed: Uint8Array,
+  messageType: string,
+  { key, envelope }: Seal
+): Uint8Array => {
+  if (sealed.length < NONCE_BYTES + TAG_BYTES) {
+    throw new Error("Encrypted payload is too short");
+  }
+
+  const keyBytes = toKeyBytes(key);
+  const nonce = sealed.subarray(0, NONCE_BYTES);
+  const ciphertext = sealed.subarray(NONCE_BYTES, sealed.length - TAG_BYTES);
+  const tag = sealed.subarray(sealed.length - TAG_BYTES);
+  const expectedTag = computeTag(
+    keyBytes,
+    nonce,
+    toAdditionalData(messageType, envelope),
+    ciphertext
+  );
+
+  // Compared in full, so the time taken does not tell how much matched
+  let difference = 0;
+  for (let i = 0; i < TAG_BYTES; i++) {
+    difference |= tag[i] ^ expectedTag[i];
+  }
+  if (difference !== 0) {
+    throw new Error("Encrypted payload failed authentication");
+  }
+
+  return chachaXor(keyBytes, 1, nonce, ciphertext);
+};
+
+// Text frames carry the sealed UTF-8 text in base64
+export const encryptText = (
+  text: string,
+  messageType: string,
+  seal: Seal
+): string =>
+  encode(strFromU8(encryptBytes(strToU8(text), messageType, seal), true));
+
+export const decryptText = (
+  payload: string,
+  messageType: string,
+  seal: Seal
+): string =>
+  strFromU8(decryptBytes(strToU8(decode(payload), true), messageType, seal));
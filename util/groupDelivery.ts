@@ -0,0 +1,104 @@
+import { crc32 } from "@/util/chunkCodec";
+import {
+  ChatMessage,
+  MessageStatus,
+  RecipientDelivery,
+} from "@/util/contextChat";
+
+// A group message is sent to every member separately. Its recipients record
+// the delivery to each member, and its status sums them up.
+
+/**
+ * ID a group message carries on the wire, so receivers can show it in the
+ * group. Each member's group lists the other members, so the ID is derived
+ * from those addresses and the member's own, which gives every member the
+ * same ID without agreeing on one first. A member whose group lists different
+ * nodes gets another ID, and its messages are shown in the direct chats.
+ */
+export const toGroupId = (addresses: string[]): string =>
+  crc32(
+    [...new Set(addresses.map((address) => address.toLowerCase()))]
+      .sort()
+      .join(",")
+  )
+    .toString(16)
+    .padStart(8, "0");
+
+// In progress while a member is, then failed when a member failed, and
+// delivered once every member acknowledged it
+export const toGroupStatus = (
+  recipients: RecipientDelivery[]
+): MessageStatus => {
+  const statuses = recipients.map(({ status }) => status);
+  if (statuses.includes("sending")) {
+    return "sending";
+  }
+  if (statuses.includes("queued")) {
+    return "queued";
+  }
+  if (statuses.includes("failed")) {
+    return "failed";
+  }
+  return statuses.every((status) => status === "delivered")
+    ? "delivered"
+    : "sent";
+};
+
+// Members the message still has to be sent to, including failed ones
+export const getPendingRecipientIds = (message: ChatMessage): string[] =>
+  Object.entries(message.recipients ?? {})
+    .filter(([, { status }]) => status !== "sent" && status !== "delivered")
+    .map(([contactId]) => contactId);
+
+// An acknowledgement can arrive before the last write completes, so a
+// delivered member stays delivered
+export const withRecipientDelivery = (
+  message: ChatMessage,
+  contactId: string,
+  updates: Partial<RecipientDelivery>
+): ChatMessage => {
+  const previous: RecipientDelivery = message.recipients?.[contactId] ?? {
+    status: "queued",
+  };
+  const recipients = {
+    ...message.recipients,
+    [contactId]:
+      previous.status === "delivered"
+        ? { ...previous, ...updates, status: "delivered" as const }
+        : { ...previous, ...updates },
+  };
+  return {
+    ...message,
+    recipients,
+    status: toGroupStatus(Object.values(recipients)),
+  };
+};
+
+// Marks the members that acknowledged one of the transfers as delivered.
+// Failed and earlier deliveries do not take acknowledgements.
+export const withTransfersDelivered = (
+  message: ChatMessage,
+  transferIds: string[]
+): ChatMessage =>
+  Object.entries(message.recipients ?? {})
+    .filter(
+      ([, { status, transferId }]) =>
+        (status === "sending" || status === "sent") &&
+        !!transferId &&
+        transferIds.includes(transferId)
+    )
+    .reduce(
+      (updated, [contactId]) =>
+        withRecipientDelivery(updated, contactId, { status: "delivered" }),
+      message
+    );
+
+// Transfer IDs a message was sent with, to its chat's node or to the members
+// of its group
+export const getTransferIds = (message: ChatMessage): string[] =>
+  [
+    message.transferId,
+    ...Object.values(message.recipients ?? {}).map(
+      ({ transferId }) => transferId
+    ),
+  ].filter((transferId): transferId is string => !!transferId);
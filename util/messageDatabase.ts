@@ -0,0 +1,772 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as SQLite from "expo-sqlite";
+
+import {
+  parseFileMessage,
+  storeAttachment,
+  toFileMessageText,
+} from "@/util/attachmentStore";
+import { MESSAGE_PREFIXES, USER_IDS } from "@/constants/Messages";
+import { withTransfersDelivered } from "@/util/groupDelivery";
+import {
+  ChatMessage,
+  ConfiguredChat,
+  Contact,
+  MessageSearch,
+  MessageSearchResult,
+  MessageStatus,
+} from "@/util/contextChat";
+
+// SQLite storage for contacts, chats and their messages. Direct chats
+// reference their contact by ID, group chats list theirs in chat_members and
+// have an empty contact ID. File content lives in the attachment store;
+// messages reference it by hash and the attachments table records the stored
+// files.
+// A full-text index over the message texts, kept up to date by triggers,
+// serves searches across all chats.
+
+const DATABASE_NAME = "walora.db";
+const SCHEMA_VERSION = 1;
+
+// Most results a search returns
+const SEARCH_RESULT_LIMIT = 100;
+
+// Text shared locations contain, sent or received
+const LOCATION_TEXT = `${MESSAGE_PREFIXES.LOCATION}https://maps.google.com/?q=`;
+
+// Keys of the AsyncStorage layout used before the database
+const LEGACY_CHATS_KEY = "configured_chats";
+const LEGACY_MESSAGES_KEY = "chat_messages_";
+
+// Chats reference their contact without a foreign key, since group chats have
+// none. The search index covers the text column of messages, which stays the
+// only copy of the text.
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS contacts (
+    id TEXT PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL,
+    device_name TEXT NOT NULL,
+    mac_address TEXT NOT NULL,
+    notes TEXT NOT NULL,
+    encryption_key TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS chats (
+    id TEXT PRIMARY KEY NOT NULL,
+    contact_id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    msg TEXT NOT NULL,
+    read INTEGER NOT NULL,
+    unread_count INTEGER NOT NULL,
+    group_name TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS chat_members (
+    chat_id TEXT NOT NULL REFERENCES chats (id) ON DELETE CASCADE,
+    contact_id TEXT NOT NULL,
+    PRIMARY KEY (chat_id, contact_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS attachments (
+    hash TEXT PRIMARY KEY NOT NULL,
+    size INTEGER NOT NULL,
+    mime_type TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS messages (
+    chat_id TEXT NOT NULL REFERENCES chats (id) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    text TEXT NOT NULL,
+    status TEXT,
+    transfer_id TEXT,
+    attachment_hash TEXT REFERENCES attachments (hash),
+    attachment_name TEXT,
+    data TEXT NOT NULL,
+    PRIMARY KEY (chat_id, id)
+  );
+
+  CREATE INDEX IF NOT EXISTS messages_by_date
+    ON messages (chat_id, created_at DESC);
+  CREATE INDEX IF NOT EXISTS messages_by_transfer
+    ON messages (transfer_id) WHERE transfer_id IS NOT NULL;
+  CREATE INDEX IF NOT EXISTS messages_by_attachment
+    ON messages (attachment_hash) WHERE attachment_hash IS NOT NULL;
+
+  CREATE VIRTUAL TABLE IF NOT EXISTS messages_search
+    USING fts5 (text, content = 'messages', content_rowid = 'rowid');
+
+  CREATE TRIGGER IF NOT EXISTS messages_search_insert
+    AFTER INSERT ON messages BEGIN
+      INSERT INTO messages_search (rowid, text) VALUES (new.rowid, new.text);
+    END;
+  CREATE TRIGGER IF NOT EXISTS messages_search_delete
+    AFTER DELETE ON messages BEGIN
+      INSERT INTO messages_search (messages_search, rowid, text)
+        VALUES ('delete', old.rowid, old.text);
+    END;
+  CREATE TRIGGER IF NOT EXISTS messages_search_update
+    AFTER UPDATE OF text ON messages BEGIN
+      INSERT INTO messages_search (messages_search, rowid, text)
+        VALUES ('delete', old.rowid, old.text);
+      INSERT INTO messages_search (rowid, text) VALUES (new.rowid, new.text);
+    END;
+`;
+
+interface ContactRow {
+  id: string;
+  name: string;
+  device_name: string;
+  mac_address: string;
+  notes: string;
+  encryption_key: string | null;
+}
+
+interface ChatRow {
+  id: string;
+  contact_id: string;
+  date: string;
+  msg: string;
+  read: number;
+  unread_count: number;
+  group_name: string | null;
+}
+
+interface MessageRow {
+  chat_id: string;
+  id: string;
+  created_at: number;
+  text: string;
+  status: string | null;
+  transfer_id: string | null;
+  attachment_hash: string | null;
+  attachment_name: string | null;
+  size: number | null;
+  mime_type: string | null;
+  data: string;
+}
+
+const MESSAGE_QUERY = `
+  SELECT messages.chat_id, messages.id, messages.created_at, messages.text,
+    messages.status, messages.transfer_id, messages.attachment_hash,
+    messages.attachment_name, attachments.size, attachments.mime_type,
+    messages.data
+  FROM messages
+  LEFT JOIN attachments ON attachments.hash = messages.attachment_hash
+`;
+
+// Every word of the query as a prefix, so results update while typing
+const toSearchQuery = (query: string): string =>
+  query
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => `"${word.replace(/"/g, '""')}"*`)
+    .join(" ");
+
+const toPlaceholders = (values: unknown[]): string =>
+  values.map(() => "?").join(", ");
+
+// Group messages that were sent to a member with one of the transfer IDs
+// Transfers can only be acknowledged while they are under way, as their IDs
+// are short and come back once in a while
+const UNACKNOWLEDGED_STATUSES = "('sending', 'sent')";
+
+const toRecipientTransferCondition = (transferIds: string[]): string => `
+  EXISTS (SELECT 1 FROM json_each(messages.data, '$.recipients')
+    WHERE json_extract(value, '$.transferId') IN (${toPlaceholders(
+      transferIds
+    )})
+    AND json_extract(value, '$.status') IN ${UNACKNOWLEDGED_STATUSES})
+`;
+
+const toContact = (row: ContactRow): Contact => ({
+  id: row.id,
+  name: row.name,
+  deviceName: row.device_name,
+  macAddress: row.mac_address,
+  notes: row.notes,
+  encryptionKey: row.encryption_key ?? undefined,
+});
+
+const toConfiguredChat = (
+  row: ChatRow,
+  memberIds: string[]
+): ConfiguredChat => ({
+  id: row.id,
+  ...(row.group_name !== null
+    ? { group: { name: row.group_name, memberIds } }
+    : { contactId: row.contact_id }),
+  date: row.date,
+  msg: row.msg,
+  read: row.read === 1,
+  unreadCount: row.unread_count,
+});
+
+// A chat as stored before contacts, in AsyncStorage and in backups of
+// format version 1. The node's details were part of the chat.
+export interface LegacyChat {
+  id: string;
+  from: string;
+  deviceName: string;
+  macAddress: string;
+  date: string;
+  msg: string;
+  read: boolean;
+  unreadCount?: number;
+  encryptionKey?: string;
+}
+
+// The contact of a legacy chat takes the chat's ID
+export const fromLegacyChat = (
+  legacyChat: LegacyChat
+): { contact: Contact; chat: ConfiguredChat } => ({
+  contact: {
+    id: legacyChat.id,
+    name: legacyChat.from,
+    deviceName: legacyChat.deviceName,
+    macAddress: legacyChat.macAddress,
+    notes: "",
+    ...(legacyChat.encryptionKey
+      ? { encryptionKey: legacyChat.encryptionKey }
+      : {}),
+  },
+  chat: {
+    id: legacyChat.id,
+    contactId: legacyChat.id,
+    date: legacyChat.date,
+    msg: legacyChat.msg,
+    read: legacyChat.read,
+    unreadCount: legacyChat.unreadCount ?? 0,
+  },
+});
+
+const toChatMessage = (row: MessageRow): ChatMessage => ({
+  ...JSON.parse(row.data),
+  _id: row.id,
+  text: row.text,
+  createdAt: new Date(row.created_at),
+  ...(row.status ? { status: row.status as MessageStatus } : {}),
+  ...(row.transfer_id ? { transferId: row.transfer_id } : {}),
+  ...(row.attachment_hash
+    ? {
+        attachment: {
+          hash: row.attachment_hash,
+          name: row.attachment_name ?? "",
+          size: row.size ?? 0,
+          mimeType: row.mime_type ?? "application/octet-stream",
+        },
+      }
+    : {}),
+});
+
+// Fields without a column of their own
+const toMessageData = ({
+  _id,
+  text,
+  createdAt,
+  status,
+  transferId,
+  attachment,
+  ...data
+}: ChatMessage): string => JSON.stringify(data);
+
+// Moves the content of a file message that carries it in its text, as
+// received from the bridge or stored by earlier versions, to the attachment
+// store
+const withStoredAttachment = async (
+  message: ChatMessage
+): Promise<ChatMessage> => {
+  const file = parseFileMessage(message.text);
+  if (!file) {
+    return message;
+  }
+
+  return {
+    ...message,
+    text: toFileMessageText(file.name),
+    attachment: await storeAttachment(file.name, file.base64Data),
+  };
+};
+
+const insertMessage = async (
+  db: SQLite.SQLiteDatabase,
+  chatId: string,
+  message: ChatMessage
+): Promise<boolean> => {
+  const existing = await db.getFirstAsync(
+    "SELECT 1 FROM messages WHERE chat_id = ? AND id = ?",
+    chatId,
+    String(message._id)
+  );
+  if (existing) {
+    return false;
+  }
+
+  const { attachment } = message;
+  if (attachment) {
+    await db.runAsync(
+      "INSERT OR IGNORE INTO attachments (hash, size, mime_type) VALUES (?, ?, ?)",
+      attachment.hash,
+      attachment.size,
+      attachment.mimeType
+    );
+  }
+
+  await db.runAsync(
+    `INSERT INTO messages
+      (chat_id, id, created_at, text, status, transfer_id, attachment_hash,
+        attachment_name, data)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    chatId,
+    String(message._id),
+    new Date(message.createdAt).getTime(),
+    message.text,
+    message.status ?? null,
+    message.transferId ?? null,
+    attachment?.hash ?? null,
+    attachment?.name ?? null,
+    toMessageData(message)
+  );
+  return true;
+};
+
+const upsertContact = (db: SQLite.SQLiteDatabase, contact: Contact) =>
+  db.runAsync(
+    `INSERT INTO contacts
+      (id, name, device_name, mac_address, notes, encryption_key)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET
+        name = excluded.name,
+        device_name = excluded.device_name,
+        mac_address = excluded.mac_address,
+        notes = excluded.notes,
+        encryption_key = excluded.encryption_key`,
+    contact.id,
+    contact.name,
+    contact.deviceName,
+    contact.macAddress,
+    contact.notes,
+    contact.encryptionKey ?? null
+  );
+
+const upsertChat = async (
+  db: SQLite.SQLiteDatabase,
+  chat: ConfiguredChat
+): Promise<void> => {
+  await db.runAsync(
+    `INSERT INTO chats
+      (id, contact_id, date, msg, read, unread_count, group_name)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET
+        contact_id = excluded.contact_id,
+        date = excluded.date,
+        msg = excluded.msg,
+        read = excluded.read,
+        unread_count = excluded.unread_count,
+        group_name = excluded.group_name`,
+    chat.id,
+    chat.contactId ?? "",
+    chat.date,
+    chat.msg,
+    chat.read ? 1 : 0,
+    chat.unreadCount,
+    chat.group?.name ?? null
+  );
+
+  if (chat.group) {
+    await db.runAsync("DELETE FROM chat_members WHERE chat_id = ?", chat.id);
+    for (const memberId of chat.group.memberIds) {
+      await db.runAsync(
+        "INSERT INTO chat_members (chat_id, contact_id) VALUES (?, ?)",
+        chat.id,
+        memberId
+      );
+    }
+  }
+};
+
+// Copies the chats and messages stored by earlier versions into the database
+// and returns the storage keys that can be removed afterwards
+const migrateFromAsyncStorage = async (
+  db: SQLite.SQLiteDatabase
+): Promise<string[]> => {
+  const storedChats = await AsyncStorage.getItem(LEGACY_CHATS_KEY);
+  if (!storedChats) {
+    return [];
+  }
+
+  const chats: LegacyChat[] = JSON.parse(storedChats);
+  const migratedKeys = [LEGACY_CHATS_KEY];
+
+  // Chats are listed newest first, which is the reverse of insertion order
+  for (const legacyChat of [...chats].reverse()) {
+    const { contact, chat } = fromLegacyChat(legacyChat);
+    await upsertContact(db, contact);
+    await upsertChat(db, chat);
+
+    const messagesKey = LEGACY_MESSAGES_KEY + chat.id;
+    const storedMessages = await AsyncStorage.getItem(messagesKey);
+    if (storedMessages) {
+      const messages: ChatMessage[] = JSON.parse(storedMessages);
+      for (const message of [...messages].reverse()) {
+        await insertMessage(db, chat.id, await withStoredAttachment(message));
+      }
+      migratedKeys.push(messagesKey);
+    }
+  }
+
+  console.log(`Migrated ${chats.length} chats to the message database`);
+  return migratedKeys;
+};
+
+const setUpDatabase = async (): Promise<SQLite.SQLiteDatabase> => {
+  const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+  await db.execAsync("PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON;");
+
+  const row = await db.getFirstAsync<{ user_version: number }>(
+    "PRAGMA user_version"
+  );
+  const version = row?.user_version ?? 0;
+  if (version >= SCHEMA_VERSION) {
+    return db;
+  }
+
+  let migratedKeys: string[] = [];
+  await db.withTransactionAsync(async () => {
+    await db.execAsync(SCHEMA);
+    migratedKeys = await migrateFromAsyncStorage(db);
+    await db.execAsync(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+  });
+
+  // Only once the migration is committed
+  if (migratedKeys.length > 0) {
+    await AsyncStorage.multiRemove(migratedKeys);
+  }
+  return db;
+};
+
+let database: Promise<SQLite.SQLiteDatabase> | null = null;
+
+// Opens the database on first use, creating or migrating it when needed
+const openDatabase = (): Promise<SQLite.SQLiteDatabase> => {
+  if (!database) {
+    database = setUpDatabase().catch((error) => {
+      database = null;
+      throw error;
+    });
+  }
+  return database;
+};
+
+let pendingWrites: Promise<unknown> = Promise.resolve();
+
+// Runs a write after every write still pending, across all chats. The one
+// connection is shared, so a transaction must never begin while another write
+// is running on it.
+const queueWrite = <T>(
+  write: (db: SQLite.SQLiteDatabase) => Promise<T>
+): Promise<T> => {
+  const result = pendingWrites.then(async () => write(await openDatabase()));
+  pendingWrites = result.catch(() => undefined);
+  return result;
+};
+
+// Chats in the order they were added, newest first
+export const loadChats = async (): Promise<ConfiguredChat[]> => {
+  const db = await openDatabase();
+  const rows = await db.getAllAsync<ChatRow>(
+    "SELECT * FROM chats ORDER BY rowid DESC"
+  );
+  const members = await db.getAllAsync<{
+    chat_id: string;
+    contact_id: string;
+  }>("SELECT chat_id, contact_id FROM chat_members ORDER BY rowid");
+  return rows.map((row) =>
+    toConfiguredChat(
+      row,
+      members
+        .filter(({ chat_id }) => chat_id === row.id)
+        .map(({ contact_id }) => contact_id)
+    )
+  );
+};
+
+export const loadContacts = async (): Promise<Contact[]> => {
+  const db = await openDatabase();
+  const rows = await db.getAllAsync<ContactRow>(
+    "SELECT * FROM contacts ORDER BY rowid"
+  );
+  return rows.map(toContact);
+};
+
+export const saveContact = (contact: Contact): Promise<void> =>
+  queueWrite(async (db) => {
+    await upsertContact(db, contact);
+  });
+
+export const saveChat = (chat: ConfiguredChat): Promise<void> =>
+  queueWrite((db) => upsertChat(db, chat));
+
+// Removes a chat with its messages, and its contacts when no other chat has
+// them. Resolves with the hashes of the files no other message references
+// anymore.
+export const deleteChat = (chatId: string): Promise<string[]> =>
+  queueWrite(async (db) => {
+    const unused = `
+      FROM attachments WHERE hash NOT IN
+        (SELECT attachment_hash FROM messages WHERE attachment_hash IS NOT NULL)
+    `;
+    let unusedHashes: string[] = [];
+
+    await db.withTransactionAsync(async () => {
+      await db.runAsync("DELETE FROM chats WHERE id = ?", chatId);
+      await db.runAsync(
+        `DELETE FROM contacts WHERE id NOT IN (SELECT contact_id FROM chats)
+          AND id NOT IN (SELECT contact_id FROM chat_members)`
+      );
+      const rows = await db.getAllAsync<{ hash: string }>(
+        `SELECT hash ${unused}`
+      );
+      await db.runAsync(`DELETE ${unused}`);
+      unusedHashes = rows.map(({ hash }) => hash);
+    });
+    return unusedHashes;
+  });
+
+/**
+ * Loads a page of a chat's messages, newest first as GiftedChat expects.
+ * `offset` skips that many of the newest messages.
+ */
+export const loadMessages = async (
+  chatId: string,
+  offset: number,
+  limit: number
+): Promise<ChatMessage[]> => {
+  const db = await openDatabase();
+  const rows = await db.getAllAsync<MessageRow>(
+    `${MESSAGE_QUERY}
+      WHERE messages.chat_id = ?
+      ORDER BY messages.created_at DESC, messages.rowid DESC
+      LIMIT ? OFFSET ?`,
+    chatId,
+    limit,
+    offset
+  );
+  return rows.map(toChatMessage);
+};
+
+// All messages of a chat, oldest first
+export const loadAllMessages = async (
+  chatId: string
+): Promise<ChatMessage[]> => {
+  const db = await openDatabase();
+  const rows = await db.getAllAsync<MessageRow>(
+    `${MESSAGE_QUERY}
+      WHERE messages.chat_id = ?
+      ORDER BY messages.created_at, messages.rowid`,
+    chatId
+  );
+  return rows.map(toChatMessage);
+};
+
+export const loadMessage = async (
+  chatId: string,
+  messageId: ChatMessage["_id"]
+): Promise<ChatMessage | null> => {
+  const db = await openDatabase();
+  const row = await db.getFirstAsync<MessageRow>(
+    `${MESSAGE_QUERY}
+      WHERE messages.chat_id = ? AND messages.id = ?`,
+    chatId,
+    String(messageId)
+  );
+  return row ? toChatMessage(row) : null;
+};
+
+// Number of messages in the chat newer than the given one, which is the
+// offset of its page, or null when it is not stored
+export const loadMessagePosition = async (
+  chatId: string,
+  messageId: ChatMessage["_id"]
+): Promise<number | null> => {
+  const db = await openDatabase();
+  const target = await db.getFirstAsync<{ created_at: number; rowid: number }>(
+    "SELECT created_at, rowid FROM messages WHERE chat_id = ? AND id = ?",
+    chatId,
+    String(messageId)
+  );
+  if (!target) {
+    return null;
+  }
+
+  const row = await db.getFirstAsync<{ position: number }>(
+    `SELECT COUNT(*) AS position FROM messages
+      WHERE chat_id = ?
+      AND (created_at > ? OR (created_at = ? AND rowid > ?))`,
+    chatId,
+    target.created_at,
+    target.created_at,
+    target.rowid
+  );
+  return row?.position ?? 0;
+};
+
+/**
+ * Finds messages of all chats, newest first. Every word of the query must
+ * start a word of the message text, and file messages match by file name.
+ * System messages are never returned.
+ */
+export const searchMessages = async ({
+  query,
+  sender,
+  contactId,
+  kind,
+}: MessageSearch): Promise<MessageSearchResult[]> => {
+  const conditions = ["json_extract(messages.data, '$.system') IS NOT 1"];
+  const params: (string | number)[] = [];
+
+  const searchQuery = toSearchQuery(query);
+  if (searchQuery) {
+    conditions.push(
+      "messages.rowid IN (SELECT rowid FROM messages_search WHERE messages_search MATCH ?)"
+    );
+    params.push(searchQuery);
+  }
+
+  if (sender) {
+    conditions.push("json_extract(messages.data, '$.user._id') = ?");
+    params.push(sender === "sent" ? USER_IDS.CURRENT : USER_IDS.LORA_DEVICE);
+  }
+
+  // Group messages name their sender, the others come from the chat's contact
+  if (contactId) {
+    conditions.push(
+      `json_extract(messages.data, '$.user._id') = ? AND (
+        json_extract(messages.data, '$.senderId') = ? OR (
+          json_extract(messages.data, '$.senderId') IS NULL AND
+          messages.chat_id IN (SELECT id FROM chats WHERE contact_id = ?)))`
+    );
+    params.push(USER_IDS.LORA_DEVICE, contactId, contactId);
+  }
+
+  if (kind === "file") {
+    conditions.push("messages.attachment_hash IS NOT NULL");
+  } else if (kind) {
+    conditions.push(
+      `messages.attachment_hash IS NULL AND messages.text ${
+        kind === "location" ? "LIKE" : "NOT LIKE"
+      } ?`
+    );
+    params.push(`%${LOCATION_TEXT}%`);
+  }
+
+  const db = await openDatabase();
+  const rows = await db.getAllAsync<MessageRow>(
+    `${MESSAGE_QUERY}
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY messages.created_at DESC, messages.rowid DESC
+      LIMIT ?`,
+    [...params, SEARCH_RESULT_LIMIT]
+  );
+  return rows.map((row) => ({
+    chatId: row.chat_id,
+    message: toChatMessage(row),
+  }));
+};
+
+// Stores new messages and resolves with those that were not stored yet, as
+// they were stored
+export const insertMessages = async (
+  chatId: string,
+  messages: ChatMessage[]
+): Promise<ChatMessage[]> => {
+  const storedMessages = await Promise.all(messages.map(withStoredAttachment));
+
+  return queueWrite(async (db) => {
+    const inserted: ChatMessage[] = [];
+    await db.withTransactionAsync(async () => {
+      for (const message of storedMessages) {
+        if (await insertMessage(db, chatId, message)) {
+          inserted.push(message);
+        }
+      }
+    });
+    return inserted;
+  });
+};
+
+// Writes the delivery fields and metadata of a stored message. Its text and
+// file content never change.
+const writeMessage = (
+  db: SQLite.SQLiteDatabase,
+  chatId: string,
+  message: ChatMessage
+) =>
+  db.runAsync(
+    `UPDATE messages SET status = ?, transfer_id = ?, data = ?
+      WHERE chat_id = ? AND id = ?`,
+    message.status ?? null,
+    message.transferId ?? null,
+    toMessageData(message),
+    chatId,
+    String(message._id)
+  );
+
+export const updateMessage = (
+  chatId: string,
+  message: ChatMessage
+): Promise<void> =>
+  queueWrite(async (db) => {
+    await writeMessage(db, chatId, message);
+  });
+
+// Chats that contain messages waiting for the acknowledgement of one of these
+// transfers, from their node or from a group member
+export const loadTransferChatIds = async (
+  transferIds: string[]
+): Promise<string[]> => {
+  if (transferIds.length === 0) {
+    return [];
+  }
+
+  const db = await openDatabase();
+  const rows = await db.getAllAsync<{ chat_id: string }>(
+    `SELECT DISTINCT chat_id FROM messages
+      WHERE (transfer_id IN (${toPlaceholders(transferIds)})
+        AND status IN ${UNACKNOWLEDGED_STATUSES})
+      OR ${toRecipientTransferCondition(transferIds)}`,
+    [...transferIds, ...transferIds]
+  );
+  return rows.map(({ chat_id }) => chat_id);
+};
+
+// Group messages are only delivered once every member acknowledged them
+export const markTransfersDelivered = (
+  chatId: string,
+  transferIds: string[]
+): Promise<void> =>
+  queueWrite((db) =>
+    db.withTransactionAsync(async () => {
+      await db.runAsync(
+        `UPDATE messages SET status = 'delivered'
+          WHERE chat_id = ? AND transfer_id IN (${toPlaceholders(transferIds)})
+          AND status IN ${UNACKNOWLEDGED_STATUSES}`,
+        [chatId, ...transferIds]
+      );
+
+      const groupRows = await db.getAllAsync<MessageRow>(
+        `${MESSAGE_QUERY}
+          WHERE messages.chat_id = ? AND ${toRecipientTransferCondition(
+            transferIds
+          )}`,
+        [chatId, ...transferIds]
+      );
+      for (const row of groupRows) {
+        await writeMessage(
+          db,
+          chatId,
+          withTransfersDelivered(toChatMessage(row), transferIds)
+        );
+      }
+    })
+  );
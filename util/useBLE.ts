@@ -1,4 +1,4 @@
-import { useCallback, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { PermissionsAndroid, Platform } from "react-native";
 import {
   BleError,
@@ -7,22 +7,81 @@ import {
   Device,
 } from "react-native-ble-plx";
 
+import AsyncStorage from "@react-native-async-storage/async-storage";
 import { platformApiLevel } from "expo-device";
 
 import base64 from "react-native-base64";
 
+import { decodeBinaryPayload, encodeBinaryPayload } from "@/util/binaryPayload";
+import {
+  MAX_WRITE_RETRIES,
+  PacingState,
+  createPacing,
+  needsConfirmation,
+  onCongestion,
+  onWindowConfirmed,
+} from "@/util/blePacing";
+import {
+  BINARY_CHUNK_HEADER_OVERHEAD,
+  CHUNK_HEADER_OVERHEAD,
+  ChunkedMessageInfo,
+  EndFrame,
+  MAX_REPAIR_ROUNDS,
+  addChunk,
+  crc32,
+  createMessageId,
+  createReassembly,
+  decodeFrame,
+  encodeAbortFrame,
+  encodeAckFrame,
+  encodeBinaryMessage,
+  encodeMessage,
+  encodeNackFrame,
+  getMissingChunks,
+  isComplete,
+  reassemble,
+  resetReassembly,
+  splitSourceAddress,
+  supportsBinaryFrames,
+  supportsChecksums,
+  supportsCompression,
+  supportsControlFrames,
+  supportsEnvelopes,
+  supportsGroupIds,
+  toMessageTypeCode,
+} from "@/util/chunkCodec";
+import { compressPayload, decompressPayload } from "@/util/compression";
+import { Seal, decryptText, encryptText } from "@/util/encryption";
+
 // BLE Constants - Dynamic based on negotiated MTU
-const DEFAULT_CHUNK_SIZE = 20; // Fallback for default MTU
+const DEFAULT_MTU = 23; // BLE default ATT MTU
+const ATT_HEADER_SIZE = 3;
 
-// Calculate optimal chunk size based on negotiated MTU
-const calculateChunkSize = (device: Device | null): number => {
-  if (!device || !device.mtu) {
-    return DEFAULT_CHUNK_SIZE - 9; // Reserve for protocol overhead "C:ABC:0:"
-  }
+// How long sent frames are kept around to answer NACKs from the receiver
+const OUTGOING_TRANSFER_TTL = 5 * 60 * 1000; // 5 minutes
+
+// Reconnection to the last used bridge
+const LAST_BRIDGE_STORAGE_KEY = "last_bridge";
+const CONNECTION_TIMEOUT = 10 * 1000;
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30 * 1000;
 
-  const negotiatedMTU = device.mtu;
-  const protocolOverhead = 9; // "C:ABC:0:" format overhead
-  const effectiveChunkSize = negotiatedMTU - 3 - protocolOverhead; // MTU - ATT header - protocol
+// Incomplete incoming messages are dropped after this long without a frame
+const INCOMPLETE_MESSAGE_TIMEOUT = 2 * 60 * 1000; // 2 minutes
+const INCOMPLETE_MESSAGE_SWEEP_INTERVAL = 15 * 1000;
+
+// Largest frame that fits in a single write at the negotiated MTU
+const calculateMaxFrameLength = (device: Device | null): number =>
+  (device?.mtu || DEFAULT_MTU) - ATT_HEADER_SIZE;
+
+// Calculate optimal chunk size based on negotiated MTU
+const calculateChunkSize = (
+  device: Device | null,
+  headerOverhead: number = CHUNK_HEADER_OVERHEAD
+): number => {
+  const negotiatedMTU = device?.mtu || DEFAULT_MTU;
+  const effectiveChunkSize =
+    negotiatedMTU - ATT_HEADER_SIZE - headerOverhead; // MTU - ATT header - protocol
 
   return Math.max(effectiveChunkSize, 5); // Minimum 5 bytes for safety
 };
@@ -32,25 +91,152 @@ const BLE_UUID = "0000180d-0000-1000-8000-00805f9b34fb";
 const BLE_CHARACTERISTIC = "00002a37-0000-1000-8000-00805f9b34fb";
 const CONFIG_CHARACTERISTIC = "00002a38-0000-1000-8000-00805f9b34fb";
 
-// Chunked message reassembly state
-interface ChunkedMessageInfo {
-  chunks: (string | null)[];
+const isDisconnectError = (error: unknown): boolean =>
+  error instanceof BleError &&
+  (error.errorCode === 201 || error.message.includes("disconnected"));
+
+const delay = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+// Sent message frames, kept so missing chunks can be resent on NACK and the
+// ACK can be matched to the node it was sent to
+interface OutgoingTransfer {
+  device: Device;
+  recipient: string | null; // Endpoint address the bridge forwarded it to
+  serviceUUID: string;
+  characteristicUUID: string;
+  frames: string[];
+  repairRounds: number;
+  timestamp: number;
+}
+
+// Incoming chunked message that was dropped before it could be reassembled
+export interface FailedTransfer {
+  messageId: string;
+  messageType: string;
+  source: string | null; // Address of the sending node, if known
+  groupId: string | null; // Group it was sent to, if any
+  receivedChunks: number;
   totalChunks: number;
+  reason:
+    | "timeout"
+    | "incomplete"
+    | "disconnected"
+    | "cancelled"
+    | "corrupted"
+    | "undecryptable";
+  timestamp: number;
+}
+
+// Decoded incoming message, delivered to every subscriber exactly once
+export interface ReceivedMessage {
+  id: string;
+  text: string;
+  messageType: string | null; // Chunk protocol type, null for single frames
+  transferId: string | null; // Chunk protocol message ID, null for single frames
+  source: string | null; // Address of the sending node, if known
+  groupId: string | null; // Group it was sent to, null in direct chats
+  verified: boolean; // Sealed by the source with its chat's key
+  receivedAt: number;
+}
+
+export type ReceivedMessageListener = (message: ReceivedMessage) => void;
+
+// Progress of an incoming chunked message that is still being reassembled
+export interface IncomingTransferProgress {
+  messageId: string;
+  messageType: string;
+  source: string | null;
   receivedChunks: number;
+  totalChunks: number;
+  receivedBytes: number;
+  estimatedBytes: number; // Extrapolated from the chunks received so far
+  bytesPerSecond: number | null; // Null until the rate can be measured
+  etaSeconds: number | null;
+  startedAt: number;
+}
+
+const toTransferProgress = (
+  messageId: string,
+  messageInfo: ChunkedMessageInfo
+): IncomingTransferProgress => {
+  const { receivedChunks, totalChunks, receivedBytes } = messageInfo;
+  const estimatedBytes =
+    receivedChunks > 0
+      ? Math.round((receivedBytes / receivedChunks) * totalChunks)
+      : 0;
+
+  const elapsedSeconds = (messageInfo.updatedAt - messageInfo.timestamp) / 1000;
+  const bytesPerSecond =
+    elapsedSeconds > 0 && receivedBytes > 0
+      ? receivedBytes / elapsedSeconds
+      : null;
+
+  return {
+    messageId,
+    messageType: messageInfo.messageType,
+    source: messageInfo.source,
+    receivedChunks,
+    totalChunks,
+    receivedBytes,
+    estimatedBytes,
+    bytesPerSecond,
+    etaSeconds: bytesPerSecond
+      ? Math.max(0, estimatedBytes - receivedBytes) / bytesPerSecond
+      : null,
+    startedAt: messageInfo.timestamp,
+  };
+};
+
+// Progress of an outgoing chunked message that is still being written
+export interface OutgoingTransferProgress {
+  messageId: string;
   messageType: string;
-  timestamp: number;
+  sentChunks: number;
+  totalChunks: number;
+  sentBytes: number;
+  totalBytes: number;
+  startedAt: number;
+}
+
+export interface TransferOptions {
+  signal?: AbortSignal; // Stops the transfer and sends an ABORT frame
+  compress?: boolean; // Defaults to true, only used when the peer supports it
+  encryptionKey?: string; // Seals the payload with the chat's key
+  groupId?: string; // Group the message is sent to, see toGroupId
+  onProgress?: (progress: OutgoingTransferProgress) => void;
+}
+
+// Remote endpoint the bridge currently forwards messages to
+export interface EndpointConfig {
+  name: string;
+  macAddress: string;
+}
+
+// Bridge remembered for automatic reconnection
+interface BridgeInfo {
+  id: string;
+  localName: string | null;
+  endpoint?: EndpointConfig; // Configured last, set again after reconnecting
 }
 
 interface BluetoothLowEnergyApi {
   requestPermissions(): Promise<boolean>;
   scanForPeripherals(): void;
   connectToDevice: (deviceId: Device) => Promise<void>;
-  writeToDevice: (device: Device, message: string) => Promise<void>;
+  writeToDevice: (
+    device: Device,
+    message: string,
+    options?: TransferOptions
+  ) => Promise<string>;
   writeFileToDevice: (
     device: Device,
     fileName: string,
-    fileBase64: string
-  ) => Promise<void>;
+    fileBase64: string,
+    options?: TransferOptions
+  ) => Promise<string>;
+  cancelOutgoingTransfer: (messageId: string) => void;
+  setEncryptionKeys: (keys: { [macAddress: string]: string }) => void;
   configureEndpoint: (
     device: Device,
     name: string,
@@ -58,48 +244,175 @@ interface BluetoothLowEnergyApi {
   ) => Promise<boolean>;
   disconnectFromDevice: () => void;
   clearConfigStatus: () => void;
+  dismissFailedTransfers: (messageIds: string[]) => void;
+  dismissDeliveredTransfers: (messageIds: string[]) => void;
   connectedDevice: Device | null;
+  isReconnecting: boolean;
   allDevices: Device[];
-  loraMsg: string;
+  subscribeToMessages: (listener: ReceivedMessageListener) => () => void;
   configStatus: string;
+  configuredEndpoint: EndpointConfig | null;
   chunkedMessages: { [messageId: string]: ChunkedMessageInfo };
   isReceivingChunkedMessage: boolean;
-  chunkedMessageProgress: string;
+  incomingTransfers: IncomingTransferProgress[];
+  outgoingTransfers: OutgoingTransferProgress[];
+  failedTransfers: FailedTransfer[];
+  deliveredTransfers: string[];
 }
 
 function useBLE(): BluetoothLowEnergyApi {
   const bleManager = useMemo(() => new BleManager(), []);
   const [allDevices, setAllDevices] = useState<Device[]>([]);
   const [connectedDevice, setConnectedDevice] = useState<Device | null>(null);
-  const [loraMsg, setLoraMsg] = useState<string>("");
   const [configStatus, setConfigStatus] = useState<string>("");
-
-  // Chunked message reassembly state
+  const [configuredEndpoint, setConfiguredEndpoint] =
+    useState<EndpointConfig | null>(null);
+
+  // Automatic reconnection state
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const lastBridge = useRef<BridgeInfo | null>(null);
+  const userDisconnected = useRef(false);
+  const reconnectTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const reconnectAttempt = useRef(0);
+
+  // Chunked message reassembly state. Frames are handled in the ref, so each
+  // one sees the changes of the frames before it and its side effects run
+  // once; the state only mirrors it for rendering.
   const [chunkedMessages, setChunkedMessages] = useState<{
     [messageId: string]: ChunkedMessageInfo;
   }>({});
+  const chunkedMessagesRef = useRef<{
+    [messageId: string]: ChunkedMessageInfo;
+  }>({});
+  const replaceChunkedMessages = useCallback(
+    (messages: { [messageId: string]: ChunkedMessageInfo }) => {
+      chunkedMessagesRef.current = messages;
+      setChunkedMessages(messages);
+    },
+    []
+  );
+  const sentTransfers = useRef<{ [messageId: string]: OutgoingTransfer }>({});
+
+  // Protocol version each remote node last announced, by lowercase address.
+  // Nodes that were not heard from yet are treated as version 0.
+  const peerVersions = useRef<{ [macAddress: string]: number }>({});
+
+  // Keys of encrypted chats by lowercase node address. Frames are handled by
+  // callbacks set up at connection time, so the keys and the endpoint they
+  // need are kept in refs rather than state.
+  const encryptionKeys = useRef<{ [macAddress: string]: string }>({});
+  const endpointAddress = useRef<string | null>(null);
+
+  // Pacing of frames written to the connected bridge
+  const pacing = useRef<PacingState>(createPacing(false));
+
+  // Outgoing transfers still being written, and how to cancel them
+  const [outgoingProgress, setOutgoingProgress] = useState<{
+    [messageId: string]: OutgoingTransferProgress;
+  }>({});
+  const transferControllers = useRef<{ [messageId: string]: AbortController }>(
+    {}
+  );
+  const [failedTransfers, setFailedTransfers] = useState<FailedTransfer[]>(
+    []
+  );
+  // IDs of sent messages the remote endpoint has acknowledged
+  const [deliveredTransfers, setDeliveredTransfers] = useState<string[]>([]);
+
+  // Record a reassembly that is being dropped so the chat can show it
+  const failIncomingTransfer = useCallback(
+    (
+      messageId: string,
+      messageInfo: ChunkedMessageInfo,
+      reason: FailedTransfer["reason"]
+    ) => {
+      console.warn(
+        `Incoming message ${messageId} failed (${reason}): ${messageInfo.receivedChunks}/${messageInfo.totalChunks} chunks received`
+      );
+      setFailedTransfers((prev) =>
+        prev.some((transfer) => transfer.messageId === messageId)
+          ? prev
+          : [
+              ...prev,
+              {
+                messageId,
+                messageType: messageInfo.messageType,
+                source: messageInfo.source,
+                groupId: messageInfo.groupId,
+                receivedChunks: messageInfo.receivedChunks,
+                totalChunks: messageInfo.totalChunks,
+                reason,
+                timestamp: Date.now(),
+              },
+            ]
+      );
+    },
+    []
+  );
 
   // Helper function to clean up connection state
   const cleanupConnectionState = useCallback(() => {
     setConnectedDevice(null);
-    setLoraMsg("");
     setConfigStatus("");
-    setChunkedMessages({});
-  }, []);
+    setConfiguredEndpoint(null);
+    endpointAddress.current = null;
+    for (const [messageId, messageInfo] of Object.entries(
+      chunkedMessagesRef.current
+    )) {
+      failIncomingTransfer(messageId, messageInfo, "disconnected");
+    }
+    replaceChunkedMessages({});
+  }, [failIncomingTransfer, replaceChunkedMessages]);
 
   // Computed values for UI display
   const isReceivingChunkedMessage = Object.keys(chunkedMessages).length > 0;
-  const chunkedMessageProgress = useMemo(() => {
-    const activeMessages = Object.entries(chunkedMessages);
-    if (activeMessages.length === 0) return "";
-
-    const [messageId, messageInfo] = activeMessages[0]; // Show first active message
-    const progress = (
-      (messageInfo.receivedChunks / messageInfo.totalChunks) *
-      100
-    ).toFixed(1);
-    return `${messageId}: ${messageInfo.receivedChunks}/${messageInfo.totalChunks} chunks (${progress}%)`;
-  }, [chunkedMessages]);
+
+  // Drop reassemblies whose END frame or repairs never arrived, freeing
+  // their chunk arrays
+  useEffect(() => {
+    if (!isReceivingChunkedMessage) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      const now = Date.now();
+      const staleMessages = Object.entries(chunkedMessagesRef.current).filter(
+        ([, messageInfo]) =>
+          now - messageInfo.updatedAt > INCOMPLETE_MESSAGE_TIMEOUT
+      );
+      if (staleMessages.length === 0) {
+        return;
+      }
+
+      const newMessages = { ...chunkedMessagesRef.current };
+      for (const [messageId, messageInfo] of staleMessages) {
+        failIncomingTransfer(messageId, messageInfo, "timeout");
+        delete newMessages[messageId];
+      }
+      replaceChunkedMessages(newMessages);
+    }, INCOMPLETE_MESSAGE_SWEEP_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [isReceivingChunkedMessage, failIncomingTransfer, replaceChunkedMessages]);
+
+  // Oldest first, so placeholders keep their position while chunks arrive
+  const incomingTransfers = useMemo(
+    () =>
+      Object.entries(chunkedMessages)
+        .map(([messageId, messageInfo]) =>
+          toTransferProgress(messageId, messageInfo)
+        )
+        .sort((a, b) => a.startedAt - b.startedAt),
+    [chunkedMessages]
+  );
+
+  const outgoingTransfers = useMemo(
+    () =>
+      Object.values(outgoingProgress).sort(
+        (a, b) => a.startedAt - b.startedAt
+      ),
+    [outgoingProgress]
+  );
 
   const requestAndroid31Permissions = async (): Promise<boolean> => {
     try {
@@ -164,48 +477,256 @@ function useBLE(): BluetoothLowEnergyApi {
       }
     );
   };
-  const connectToDevice = async (device: Device): Promise<void> => {
+  // Connect, negotiate the MTU and subscribe to the bridge characteristics
+  const establishConnection = async (
+    deviceId: string,
+    localName: string | null,
+    endpoint?: EndpointConfig
+  ): Promise<void> => {
+    const deviceConnection = await bleManager.connectToDevice(deviceId, {
+      timeout: CONNECTION_TIMEOUT,
+    });
+
+    // MTU Negotiation - Critical for optimal throughput
+    let negotiatedDevice: Device;
     try {
-      const deviceConnection = await bleManager.connectToDevice(device.id);
+      // Request maximum MTU (517 bytes) - will negotiate down based on iOS/device limits
+      negotiatedDevice = await deviceConnection.requestMTU(517);
+    } catch (mtuError) {
+      console.warn("MTU negotiation failed, using default MTU:", mtuError);
+      negotiatedDevice = deviceConnection;
+    }
+
+    // Preserve the original device's localName by setting it on the connected device
+    if (localName && !negotiatedDevice.localName) {
+      (negotiatedDevice as any).localName = localName;
+    }
+
+    await deviceConnection.discoverAllServicesAndCharacteristics();
+    bleManager.stopDeviceScan();
+
+    // Write without response where the bridge allows it, see blePacing
+    let withoutResponse = false;
+    try {
+      const characteristics = await deviceConnection.characteristicsForService(
+        BLE_UUID
+      );
+      withoutResponse = characteristics.some(
+        (characteristic) =>
+          characteristic.uuid.toLowerCase() === BLE_CHARACTERISTIC &&
+          characteristic.isWritableWithoutResponse
+      );
+    } catch (error) {
+      console.warn("Could not read message characteristic properties:", error);
+    }
+    pacing.current = createPacing(withoutResponse);
+
+    // Set up disconnect listener
+    deviceConnection.onDisconnected(() => {
+      cleanupConnectionState();
+      if (!userDisconnected.current) {
+        scheduleReconnect();
+      }
+    });
+
+    startStreamingData(deviceConnection);
+
+    // The bridge forgets its endpoint with the connection. Set it again before
+    // anything is sent, so frames without a source, encrypted messages and the
+    // peer's version are handled as they were.
+    if (
+      endpoint &&
+      !(await configureEndpoint(
+        negotiatedDevice,
+        endpoint.name,
+        endpoint.macAddress
+      ))
+    ) {
+      throw new Error(`Could not configure endpoint ${endpoint.macAddress}`);
+    }
+
+    // Only expose the device once it is ready to be written to
+    setConnectedDevice(negotiatedDevice);
+  };
+
+  const cancelReconnect = () => {
+    if (reconnectTimer.current) {
+      clearTimeout(reconnectTimer.current);
+      reconnectTimer.current = null;
+    }
+    reconnectAttempt.current = 0;
+    setIsReconnecting(false);
+  };
+
+  // Retry the last bridge with exponential backoff until it answers
+  const scheduleReconnect = () => {
+    const bridge = lastBridge.current;
+    if (!bridge || reconnectTimer.current) {
+      return;
+    }
+
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY * 2 ** reconnectAttempt.current,
+      RECONNECT_MAX_DELAY
+    );
+    reconnectAttempt.current += 1;
+    setIsReconnecting(true);
+
+    reconnectTimer.current = setTimeout(async () => {
+      reconnectTimer.current = null;
+      if (userDisconnected.current || lastBridge.current?.id !== bridge.id) {
+        return;
+      }
 
-      // MTU Negotiation - Critical for optimal throughput
       try {
-        // Request maximum MTU (517 bytes) - will negotiate down based on iOS/device limits
-        const deviceWithMTU = await deviceConnection.requestMTU(517);
-        
-        // Preserve the original device's localName by setting it on the connected device
-        if (device.localName && !deviceWithMTU.localName) {
-          (deviceWithMTU as any).localName = device.localName;
+        await establishConnection(
+          bridge.id,
+          bridge.localName,
+          lastBridge.current?.endpoint
+        );
+        cancelReconnect();
+      } catch (error) {
+        console.log(
+          `Reconnect attempt ${reconnectAttempt.current} failed:`,
+          error
+        );
+        // Drop a half-open connection before the next attempt
+        bleManager.cancelDeviceConnection(bridge.id).catch(() => {});
+        scheduleReconnect();
+      }
+    }, delay);
+  };
+
+  // Reconnect in the background to the bridge used last time
+  useEffect(() => {
+    const restoreLastBridge = async () => {
+      try {
+        const stored = await AsyncStorage.getItem(LAST_BRIDGE_STORAGE_KEY);
+        if (!stored || lastBridge.current) {
+          return;
         }
-        
-        setConnectedDevice(deviceWithMTU);
-      } catch (mtuError) {
-        console.warn("MTU negotiation failed, using default MTU:", mtuError);
-        
-        // Preserve the original device's localName by setting it on the connected device
-        if (device.localName && !deviceConnection.localName) {
-          (deviceConnection as any).localName = device.localName;
+
+        lastBridge.current = JSON.parse(stored);
+        if (await requestPermissions()) {
+          scheduleReconnect();
         }
-        
-        setConnectedDevice(deviceConnection);
+      } catch (error) {
+        console.log("Failed to restore last bridge:", error);
       }
+    };
 
-      await deviceConnection.discoverAllServicesAndCharacteristics();
-      bleManager.stopDeviceScan();
+    restoreLastBridge();
 
-      // Set up disconnect listener
-      deviceConnection.onDisconnected(
-        (error: BleError | null, disconnectedDevice: Device | null) => {
-          cleanupConnectionState();
-        }
-      );
+    return () => {
+      if (reconnectTimer.current) {
+        clearTimeout(reconnectTimer.current);
+      }
+    };
+  }, []);
+
+  const connectToDevice = async (device: Device): Promise<void> => {
+    userDisconnected.current = false;
+    cancelReconnect();
 
-      startStreamingData(deviceConnection);
+    try {
+      await establishConnection(device.id, device.localName);
     } catch (error) {
       console.log("Failed to connect to device:", error);
       setConnectedDevice(null);
       throw new Error(`Connection failed: ${error}`);
     }
+
+    saveLastBridge({ id: device.id, localName: device.localName });
+  };
+
+  // Kept across restarts, so the bridge can be reconnected in the background
+  const saveLastBridge = (bridge: BridgeInfo) => {
+    lastBridge.current = bridge;
+    AsyncStorage.setItem(LAST_BRIDGE_STORAGE_KEY, JSON.stringify(bridge)).catch(
+      (error) => console.log("Failed to save last bridge:", error)
+    );
+  };
+
+  // Drop sent frames that are too old to be asked for again
+  const pruneOutgoingTransfers = () => {
+    const now = Date.now();
+    for (const [messageId, transfer] of Object.entries(
+      sentTransfers.current
+    )) {
+      if (now - transfer.timestamp > OUTGOING_TRANSFER_TTL) {
+        delete sentTransfers.current[messageId];
+      }
+    }
+  };
+
+  // Write frames in order, paced by how well the bridge kept up so far. Stops
+  // before the next frame once the signal is aborted and returns the number
+  // of frames written.
+  const writeFrames = async (
+    device: Device,
+    serviceUUID: string,
+    characteristicUUID: string,
+    frames: string[],
+    signal?: AbortSignal,
+    onFrameWritten?: (frameIndex: number) => void
+  ): Promise<number> => {
+    let framesSinceConfirmation = 0;
+    let retries = 0;
+
+    for (let i = 0; i < frames.length; ) {
+      if (signal?.aborted) {
+        return i;
+      }
+
+      const confirm = needsConfirmation(
+        pacing.current,
+        framesSinceConfirmation,
+        i === 0 || i === frames.length - 1
+      );
+
+      try {
+        if (confirm) {
+          await device.writeCharacteristicWithResponseForService(
+            serviceUUID,
+            characteristicUUID,
+            base64.encode(frames[i])
+          );
+        } else {
+          await device.writeCharacteristicWithoutResponseForService(
+            serviceUUID,
+            characteristicUUID,
+            base64.encode(frames[i])
+          );
+        }
+      } catch (error) {
+        if (isDisconnectError(error) || retries >= MAX_WRITE_RETRIES) {
+          throw error;
+        }
+
+        // The bridge could not take the frame, slow down and write it again
+        retries += 1;
+        pacing.current = onCongestion(pacing.current);
+        framesSinceConfirmation = 0;
+        await delay(pacing.current.frameDelay);
+        continue;
+      }
+
+      retries = 0;
+      if (confirm) {
+        pacing.current = onWindowConfirmed(pacing.current);
+        framesSinceConfirmation = 0;
+      } else {
+        framesSinceConfirmation += 1;
+      }
+      onFrameWritten?.(i);
+
+      i += 1;
+      if (i < frames.length && pacing.current.frameDelay > 0) {
+        await delay(pacing.current.frameDelay);
+      }
+    }
+
+    return frames.length;
   };
 
   // Enhanced chunking with dynamic MTU-based sizing
@@ -214,76 +735,241 @@ function useBLE(): BluetoothLowEnergyApi {
     serviceUUID: string,
     characteristicUUID: string,
     message: string,
-    messageType: string = "text"
-  ): Promise<void> => {
-    try {
-      // Use short message ID (3 chars: random base36)
-      const messageId = Math.random().toString(36).substring(2, 5);
-
-      // Calculate optimal chunk size based on negotiated MTU
-      // Format: "C:ABC:0:DATA" = 9 chars overhead + data
-      const maxChunkSize = calculateChunkSize(device);
-      const totalChunks = Math.ceil(message.length / maxChunkSize);
+    messageType: string = "text",
+    {
+      signal,
+      onProgress,
+      compress = true,
+      encryptionKey,
+      groupId,
+    }: TransferOptions = {}
+  ): Promise<string> => {
+    const messageId = createMessageId();
+
+    // Aborted by the caller's signal or through cancelOutgoingTransfer
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (signal?.aborted) {
+      abort();
+    }
+    signal?.addEventListener("abort", abort);
+    transferControllers.current[messageId] = controller;
 
-      // Truncate message type to 1 char to save space
-      const msgType = messageType.charAt(0);
+    try {
+      // What the endpoint the bridge forwards to understands
+      const peerVersion = endpointAddress.current
+        ? peerVersions.current[endpointAddress.current] ?? 0
+        : 0;
+      const withChecksum = supportsChecksums(peerVersion);
+      const sentGroupId =
+        groupId && supportsGroupIds(peerVersion) ? groupId : null;
+      const seal = encryptionKey
+        ? toOutgoingSeal(device, encryptionKey)
+        : undefined;
+
+      let frames: string[];
+      if (supportsBinaryFrames(peerVersion)) {
+        // Raw bytes in binary frames, deflated when it pays off
+        const { payload, compressed } = encodeBinaryPayload(
+          message,
+          messageType,
+          compress,
+          seal
+        );
+        frames = encodeBinaryMessage(
+          payload,
+          calculateChunkSize(device, BINARY_CHUNK_HEADER_OVERHEAD),
+          messageType,
+          messageId,
+          compressed,
+          withChecksum,
+          !!encryptionKey,
+          sentGroupId
+        );
+      } else {
+        // Compress for peers that can inflate, unless it does not pay off
+        const compressedMessage =
+          compress && supportsCompression(peerVersion)
+            ? compressPayload(message)
+            : null;
+        const payload = compressedMessage ?? message;
+
+        // Frames: START, one CHUNK per slice of the message, END
+        frames = encodeMessage(
+          seal ? encryptText(payload, messageType, seal) : payload,
+          calculateChunkSize(device),
+          messageType,
+          messageId,
+          compressedMessage !== null,
+          withChecksum,
+          !!encryptionKey,
+          sentGroupId
+        );
+      }
 
-      // Send START message: S:ABC:5:t (S:messageId:totalChunks:type)
-      const startMessage = `S:${messageId}:${totalChunks}:${msgType}`;
-      await device.writeCharacteristicWithResponseForService(
+      // Keep the frames before writing, a NACK can arrive while still sending
+      pruneOutgoingTransfers();
+      sentTransfers.current[messageId] = {
+        device,
+        recipient: endpointAddress.current,
         serviceUUID,
         characteristicUUID,
-        base64.encode(startMessage)
+        frames,
+        repairRounds: 0,
+        timestamp: Date.now(),
+      };
+
+      const progress: OutgoingTransferProgress = {
+        messageId,
+        messageType: toMessageTypeCode(messageType),
+        sentChunks: 0,
+        totalChunks: frames.length - 2,
+        sentBytes: 0,
+        totalBytes: message.length,
+        startedAt: Date.now(),
+      };
+      const reportProgress = (frameIndex: number) => {
+        // Frame i > 0 carries chunk i - 1, so i chunks are out once it is written
+        const sentChunks = Math.min(frameIndex, progress.totalChunks);
+        const update = {
+          ...progress,
+          sentChunks,
+          sentBytes:
+            progress.totalChunks > 0
+              ? Math.round(
+                  (progress.totalBytes * sentChunks) / progress.totalChunks
+                )
+              : progress.totalBytes,
+        };
+        setOutgoingProgress((prev) => ({ ...prev, [messageId]: update }));
+        onProgress?.(update);
+      };
+      reportProgress(0);
+
+      const framesWritten = await writeFrames(
+        device,
+        serviceUUID,
+        characteristicUUID,
+        frames,
+        controller.signal,
+        reportProgress
       );
-      await new Promise((resolve) => setTimeout(resolve, 100)); // Reduced delay for optimized buffer system
+      if (framesWritten < frames.length) {
+        await abortOutgoingTransfer(
+          device,
+          serviceUUID,
+          characteristicUUID,
+          messageId,
+          framesWritten
+        );
+      }
 
-      // Send chunks: C:ABC:0:DATA (C:messageId:chunkIndex:data)
-      for (let i = 0; i < totalChunks; i++) {
-        const start = i * maxChunkSize;
-        const end = Math.min(start + maxChunkSize, message.length);
-        const chunk = message.substring(start, end);
-        const chunkMessage = `C:${messageId}:${i}:${chunk}`;
+      return messageId;
+    } catch (error) {
+      console.log("Failed to write characteristic chunks:", error);
+      throw error;
+    } finally {
+      signal?.removeEventListener("abort", abort);
+      delete transferControllers.current[messageId];
+      setOutgoingProgress((prev) => {
+        const newProgress = { ...prev };
+        delete newProgress[messageId];
+        return newProgress;
+      });
+    }
+  };
 
+  // Tell the receiver to drop a partly sent message, then fail the write
+  const abortOutgoingTransfer = async (
+    device: Device,
+    serviceUUID: string,
+    characteristicUUID: string,
+    messageId: string,
+    framesSent: number
+  ): Promise<never> => {
+    delete sentTransfers.current[messageId];
+
+    // Nothing to discard if not even the START frame went out
+    if (framesSent > 0) {
+      try {
         await device.writeCharacteristicWithResponseForService(
           serviceUUID,
           characteristicUUID,
-          base64.encode(chunkMessage)
+          base64.encode(encodeAbortFrame(messageId))
         );
-
-        await new Promise((resolve) => setTimeout(resolve, 30)); // Reduced delay for improved ESP32 buffer management
+      } catch (error) {
+        console.log("Failed to send abort frame:", error);
       }
+    }
 
-      // Send END message: E:ABC:5 (E:messageId:totalChunks)
-      const endMessage = `E:${messageId}:${totalChunks}`;
-      await device.writeCharacteristicWithResponseForService(
-        serviceUUID,
-        characteristicUUID,
-        base64.encode(endMessage)
+    const error = new Error(`Transfer ${messageId} cancelled`);
+    error.name = "AbortError";
+    throw error;
+  };
+
+  const cancelOutgoingTransfer = useCallback((messageId: string) => {
+    transferControllers.current[messageId]?.abort();
+  }, []);
+
+  // Resend only the chunks a receiver reported missing, then END again
+  const resendMissingChunks = async (
+    messageId: string,
+    missingChunks: number[]
+  ): Promise<void> => {
+    const transfer = sentTransfers.current[messageId];
+    if (!transfer) {
+      console.warn(`NACK for unknown or expired message ${messageId}`);
+      return;
+    }
+
+    if (transfer.repairRounds >= MAX_REPAIR_ROUNDS) {
+      console.warn(
+        `Giving up on message ${messageId} after ${MAX_REPAIR_ROUNDS} repair rounds`
+      );
+      delete sentTransfers.current[messageId];
+      return;
+    }
+    transfer.repairRounds += 1;
+
+    // Lost chunks mean the bridge was sent more than it could take
+    pacing.current = onCongestion(pacing.current);
+
+    // frames[0] is START, chunk i is at frames[i + 1], END is last
+    const { device, serviceUUID, characteristicUUID, frames } = transfer;
+    const chunkFrames = missingChunks
+      .filter((index) => index >= 0 && index < frames.length - 2)
+      .map((index) => frames[index + 1]);
+
+    try {
+      await writeFrames(device, serviceUUID, characteristicUUID, [
+        ...chunkFrames,
+        frames[frames.length - 1],
+      ]);
+      console.log(
+        `Resent ${chunkFrames.length} chunks of message ${messageId} (round ${transfer.repairRounds})`
       );
     } catch (error) {
-      console.log("Failed to write characteristic chunks:", error);
-      throw error;
+      console.log("Failed to resend chunks:", error);
     }
   };
 
   const writeToDevice = async (
     device: Device,
-    message: string
-  ): Promise<void> => {
+    message: string,
+    options?: TransferOptions
+  ): Promise<string> => {
     try {
-      await writeCharacteristicInChunks(
+      return await writeCharacteristicInChunks(
         device,
         BLE_UUID,
         BLE_CHARACTERISTIC,
         message,
-        "text" // message type
+        "text", // message type
+        options
       );
     } catch (error) {
       // Handle device disconnection during write
-      if (
-        error instanceof BleError &&
-        (error.errorCode === 201 || error.message.includes("disconnected"))
-      ) {
+      if (isDisconnectError(error)) {
         cleanupConnectionState();
         throw new Error("Device disconnected during message transmission");
       }
@@ -295,8 +981,9 @@ function useBLE(): BluetoothLowEnergyApi {
   const writeFileToDevice = async (
     device: Device,
     fileName: string,
-    fileBase64: string
-  ): Promise<void> => {
+    fileBase64: string,
+    options?: TransferOptions
+  ): Promise<string> => {
     if (!fileName || !fileBase64 || !device) {
       throw new Error("Device, filename, and file data are required");
     }
@@ -305,19 +992,17 @@ function useBLE(): BluetoothLowEnergyApi {
 
     try {
       // Use the regular message characteristic with chunking protocol
-      await writeCharacteristicInChunks(
+      return await writeCharacteristicInChunks(
         device,
         BLE_UUID,
         BLE_CHARACTERISTIC, // Use message characteristic, not file characteristic
         fileMessage,
-        "file" // message type
+        "file", // message type
+        options
       );
     } catch (error) {
       // Check if device was disconnected
-      if (
-        error instanceof BleError &&
-        (error.errorCode === 201 || error.message.includes("disconnected"))
-      ) {
+      if (isDisconnectError(error)) {
         cleanupConnectionState();
         throw new Error("Device disconnected during file transmission");
       }
@@ -342,13 +1027,18 @@ function useBLE(): BluetoothLowEnergyApi {
         CONFIG_CHARACTERISTIC,
         base64.encode(configMessage)
       );
+      setConfiguredEndpoint({ name, macAddress });
+      endpointAddress.current = macAddress.toLowerCase();
+      if (lastBridge.current?.id === device.id) {
+        saveLastBridge({
+          ...lastBridge.current,
+          endpoint: { name, macAddress },
+        });
+      }
       return true;
     } catch (error) {
       // Handle device disconnection during configuration
-      if (
-        error instanceof BleError &&
-        (error.errorCode === 201 || error.message.includes("disconnected"))
-      ) {
+      if (isDisconnectError(error)) {
         cleanupConnectionState();
       } else {
         console.log("Failed to configure endpoint:", error);
@@ -357,7 +1047,15 @@ function useBLE(): BluetoothLowEnergyApi {
     }
   };
 
+  // Disconnect on request and forget the bridge, so it is not reconnected
   const disconnectFromDevice = () => {
+    userDisconnected.current = true;
+    cancelReconnect();
+    lastBridge.current = null;
+    AsyncStorage.removeItem(LAST_BRIDGE_STORAGE_KEY).catch((error) =>
+      console.log("Failed to forget last bridge:", error)
+    );
+
     if (connectedDevice) {
       try {
         bleManager.cancelDeviceConnection(connectedDevice.id);
@@ -375,138 +1073,375 @@ function useBLE(): BluetoothLowEnergyApi {
     setConfigStatus("");
   };
 
-  // Parse chunked messages from bridge
-  const parseChunkedMessage = (messageData: string): boolean => {
+  // Replaces the keys messages are decrypted with, by node address
+  const setEncryptionKeys = useCallback(
+    (keys: { [macAddress: string]: string }) => {
+      encryptionKeys.current = Object.fromEntries(
+        Object.entries(keys).map(([macAddress, key]) => [
+          macAddress.toLowerCase(),
+          key,
+        ])
+      );
+    },
+    []
+  );
+
+  // Sent messages are sealed from this bridge's node to the endpoint the
+  // bridge forwards to
+  const toOutgoingSeal = (device: Device, key: string): Seal => {
+    const sender = device.localName?.toLowerCase();
+    const recipient = endpointAddress.current;
+    if (!sender || !recipient) {
+      throw new Error("Encrypted messages need a configured endpoint");
+    }
+    return { key, envelope: { sender, recipient } };
+  };
+
+  // What a received message has to be sealed with: the key of the sender's
+  // chat, in an envelope from the sender to this bridge's node. Messages
+  // without a source come from the configured endpoint. Null when there is
+  // nothing to open it with.
+  const getIncomingSeal = (
+    device: Device,
+    messageInfo: ChunkedMessageInfo
+  ): Seal | null => {
+    const sender = messageInfo.source ?? endpointAddress.current;
+    const key = sender ? encryptionKeys.current[sender] : undefined;
+    if (!sender || !key) {
+      return null;
+    }
+    if (!supportsEnvelopes(messageInfo.version)) {
+      return { key, envelope: null };
+    }
+
+    const recipient = device.localName?.toLowerCase();
+    return recipient ? { key, envelope: { sender, recipient } } : null;
+  };
+
+  const dismissDeliveredTransfers = useCallback((messageIds: string[]) => {
+    setDeliveredTransfers((prev) =>
+      prev.filter((messageId) => !messageIds.includes(messageId))
+    );
+  }, []);
+
+  // Consumers of decoded messages. Each one receives every message, so a
+  // message is never lost to a render that did not happen yet.
+  const messageListeners = useRef(new Set<ReceivedMessageListener>());
+
+  // Returns the function that unsubscribes the listener again
+  const subscribeToMessages = useCallback(
+    (listener: ReceivedMessageListener) => {
+      messageListeners.current.add(listener);
+      return () => {
+        messageListeners.current.delete(listener);
+      };
+    },
+    []
+  );
+
+  const dismissFailedTransfers = useCallback((messageIds: string[]) => {
+    setFailedTransfers((prev) =>
+      prev.filter((transfer) => !messageIds.includes(transfer.messageId))
+    );
+  }, []);
+
+  // Hand a decoded message to every subscriber
+  const receiveMessage = (
+    text: string,
+    source: string | null,
+    transfer: {
+      messageId: string;
+      messageType: string;
+      verified: boolean;
+      groupId: string | null;
+    } | null = null
+  ): void => {
+    if (!text.trim()) {
+      return;
+    }
+
+    const receivedAt = Date.now();
+    const message: ReceivedMessage = {
+      id: `${receivedAt}_${Math.random().toString(36).substring(7)}`,
+      text,
+      messageType: transfer?.messageType ?? null,
+      transferId: transfer?.messageId ?? null,
+      source,
+      groupId: transfer?.groupId ?? null,
+      verified: transfer?.verified ?? false,
+      receivedAt,
+    };
+
+    // Copied, so listeners can unsubscribe while being notified
+    for (const listener of [...messageListeners.current]) {
+      try {
+        listener(message);
+      } catch (error) {
+        console.error("Message listener failed:", error);
+      }
+    }
+  };
+
+  // Hand a fully reassembled message to the subscribers based on its type
+  const deliverReassembledMessage = (
+    messageId: string,
+    messageType: string,
+    reassembledMessage: string,
+    source: string | null,
+    verified: boolean,
+    groupId: string | null
+  ): void => {
+    const transfer = { messageId, messageType, verified, groupId };
+
+    if (messageType === "f") {
+      // FILE type - handle file protocol
+      if (reassembledMessage.startsWith("FILE:")) {
+        // The message store expects "FILE:filename:base64data" and moves
+        // the content to the attachment store
+        receiveMessage(reassembledMessage, source, transfer);
+      } else {
+        // Fallback for other file formats
+        receiveMessage(
+          `File received:\n${reassembledMessage}`,
+          source,
+          transfer
+        );
+      }
+    } else if (messageType === "c") {
+      // CONFIG type
+      console.log(`Received config data: ${reassembledMessage.length} chars`);
+      receiveMessage(
+        `Config received:\n${reassembledMessage}`,
+        source,
+        transfer
+      );
+    } else {
+      // Default text message
+      receiveMessage(reassembledMessage, source, transfer);
+    }
+  };
+
+  // Send a single NACK or ACK frame back towards the sender
+  const writeControlFrame = (device: Device, frame: string): void => {
+    device
+      .writeCharacteristicWithResponseForService(
+        BLE_UUID,
+        BLE_CHARACTERISTIC,
+        base64.encode(frame)
+      )
+      .catch((error) => console.log(`Failed to send "${frame}":`, error));
+  };
+
+  // Whatever is written to the bridge goes to the endpoint it is configured
+  // for, so only messages from that endpoint can be answered with a NACK or ACK
+  const canAnswer = (messageInfo: ChunkedMessageInfo): boolean =>
+    supportsControlFrames(messageInfo.version) &&
+    (messageInfo.source === null ||
+      messageInfo.source === endpointAddress.current);
+
+  // Ask the sender for the chunks that did not arrive
+  const requestMissingChunks = (
+    device: Device,
+    messageId: string,
+    missingChunks: number[]
+  ): void => {
+    writeControlFrame(
+      device,
+      encodeNackFrame(messageId, missingChunks, calculateMaxFrameLength(device))
+    );
+  };
+
+  // The remote endpoint reassembled one of our messages. Message IDs are short
+  // and random, so only the node a kept transfer was sent to can confirm it.
+  const markTransferDelivered = (
+    messageId: string,
+    source: string | null
+  ): void => {
+    const transfer = sentTransfers.current[messageId];
+    const sender = source ?? endpointAddress.current;
+    if (!transfer || !sender || sender !== transfer.recipient) {
+      console.warn(`ACK for unknown or expired message ${messageId}`);
+      return;
+    }
+
+    delete sentTransfers.current[messageId];
+    setDeliveredTransfers((prev) =>
+      prev.includes(messageId) ? prev : [...prev, messageId]
+    );
+  };
+
+  // Complete a reassembly on its END frame: deliver the message and confirm
+  // it, ask for the chunks that are still missing, or give up on it. Returns
+  // the reassembly to keep waiting with, or null once it is done with.
+  const finishReassembly = (
+    device: Device,
+    frame: EndFrame,
+    messageInfo: ChunkedMessageInfo
+  ): ChunkedMessageInfo | null => {
+    const { messageId } = frame;
+
+    // Check if all chunks received
+    if (!isComplete(messageInfo)) {
+      console.warn(
+        `Incomplete message ${messageId}: ${messageInfo.receivedChunks}/${messageInfo.totalChunks} chunks received`
+      );
+
+      if (
+        canAnswer(messageInfo) &&
+        messageInfo.repairRounds < MAX_REPAIR_ROUNDS
+      ) {
+        requestMissingChunks(device, messageId, getMissingChunks(messageInfo));
+        return {
+          ...messageInfo,
+          repairRounds: messageInfo.repairRounds + 1,
+          updatedAt: Date.now(),
+        };
+      }
+
+      failIncomingTransfer(messageId, messageInfo, "incomplete");
+      return null;
+    }
+
+    let reassembledMessage = reassemble(messageInfo);
+
+    // A mismatch means a chunk was corrupted or put in the wrong slot, and
+    // there is no telling which, so all of them are asked for again
+    if (
+      frame.checksum !== undefined &&
+      crc32(reassembledMessage) !== frame.checksum
+    ) {
+      console.warn(`Checksum mismatch for message ${messageId}`);
+
+      if (
+        canAnswer(messageInfo) &&
+        messageInfo.repairRounds < MAX_REPAIR_ROUNDS
+      ) {
+        const resetInfo = resetReassembly(messageInfo);
+        requestMissingChunks(device, messageId, getMissingChunks(resetInfo));
+        return { ...resetInfo, repairRounds: messageInfo.repairRounds + 1 };
+      }
+
+      failIncomingTransfer(messageId, messageInfo, "corrupted");
+      return null;
+    }
+
+    // Sealed with the key of the sender's chat
+    const seal = messageInfo.encrypted
+      ? getIncomingSeal(device, messageInfo)
+      : null;
+    if (messageInfo.encrypted && !seal) {
+      console.warn(`No encryption key for message ${messageId}`);
+      failIncomingTransfer(messageId, messageInfo, "undecryptable");
+      return null;
+    }
+
     try {
-      const message = messageData.trim();
-
-      if (message.startsWith("S:")) {
-        // START message: S:<messageId>:<totalChunks>:<messageType>
-        const parts = message.split(":", 4);
-        if (parts.length >= 4) {
-          const messageId = parts[1];
-          const totalChunks = parseInt(parts[2]);
-          const messageType = parts[3];
-
-          setChunkedMessages((prev) => ({
-            ...prev,
-            [messageId]: {
-              chunks: new Array(totalChunks).fill(null),
-              totalChunks,
-              receivedChunks: 0,
-              messageType,
-              timestamp: Date.now(),
-            },
-          }));
-        }
-        return true;
-      } else if (message.startsWith("C:")) {
-        // CHUNK message: C:<messageId>:<chunkIndex>:<data>
-        const firstColon = message.indexOf(":", 2); // Find colon after "C:"
-        const secondColon = message.indexOf(":", firstColon + 1); // Find next colon
-
-        if (firstColon !== -1 && secondColon !== -1) {
-          const messageId = message.substring(2, firstColon);
-          const chunkIndexReceived = parseInt(
-            message.substring(firstColon + 1, secondColon)
+      if (messageInfo.binary) {
+        reassembledMessage = decodeBinaryPayload(
+          reassembledMessage,
+          messageInfo.messageType,
+          messageInfo.compressed,
+          seal ?? undefined
+        );
+      } else {
+        if (seal) {
+          reassembledMessage = decryptText(
+            reassembledMessage,
+            messageInfo.messageType,
+            seal
           );
-          const chunkIndex = chunkIndexReceived - 1; // Convert from 1-based to 0-based for array indexing
-          const chunkData = message.substring(secondColon + 1); // Everything after second colon
-
-          setChunkedMessages((prev) => {
-            const messageInfo = prev[messageId];
-            if (
-              !messageInfo ||
-              chunkIndex < 0 ||
-              chunkIndex >= messageInfo.totalChunks
-            ) {
-              return prev;
-            }
+        }
+        if (messageInfo.compressed) {
+          reassembledMessage = decompressPayload(reassembledMessage);
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to decode message ${messageId}:`, error);
+      // A sealed payload that does not open was sealed with another key, or
+      // claims to come from a node that did not seal it
+      failIncomingTransfer(
+        messageId,
+        messageInfo,
+        seal ? "undecryptable" : "corrupted"
+      );
+      return null;
+    }
 
-            // Don't overwrite existing chunks (handle duplicates)
-            if (messageInfo.chunks[chunkIndex] === null) {
-              const newChunks = [...messageInfo.chunks];
-              newChunks[chunkIndex] = chunkData;
-
-              const newReceivedCount = messageInfo.receivedChunks + 1;
-
-              return {
-                ...prev,
-                [messageId]: {
-                  ...messageInfo,
-                  chunks: newChunks,
-                  receivedChunks: newReceivedCount,
-                },
-              };
-            }
+    deliverReassembledMessage(
+      messageId,
+      messageInfo.messageType,
+      reassembledMessage,
+      messageInfo.source,
+      !!seal?.envelope,
+      messageInfo.groupId
+    );
+    if (canAnswer(messageInfo)) {
+      writeControlFrame(device, encodeAckFrame(messageId));
+    }
+    return null;
+  };
 
-            return prev;
-          });
-        }
-        return true;
-      } else if (message.startsWith("E:")) {
-        // END message: E:<messageId>:<totalChunks>
-        const parts = message.split(":");
-        if (parts.length >= 3) {
-          const messageId = parts[1];
-          const expectedTotal = parseInt(parts[2]);
-
-          setChunkedMessages((prev) => {
-            const messageInfo = prev[messageId];
-            if (!messageInfo) {
-              return prev;
-            }
+  // Parse chunked messages from bridge
+  const parseChunkedMessage = (
+    device: Device,
+    messageData: string,
+    source: string | null
+  ): boolean => {
+    try {
+      const frame = decodeFrame(messageData);
+      if (!frame) {
+        return false; // Not a chunked message
+      }
 
-            // Check if all chunks received
-            if (messageInfo.receivedChunks === messageInfo.totalChunks) {
-              // Reassemble the message
-              const reassembledMessage = messageInfo.chunks.join("");
-
-              // Process the complete message based on its type
-              if (messageInfo.messageType === "f") {
-                // FILE type - handle file protocol
-                if (reassembledMessage.startsWith("FILE:")) {
-                  console.log(
-                    `Received file message: ${reassembledMessage.substring(
-                      0,
-                      50
-                    )}...`
-                  );
-                  // Set the message in the correct format for the chat component to handle
-                  // The chat component expects "FILE:filename:base64data" format
-                  setLoraMsg(reassembledMessage);
-                } else {
-                  // Fallback for other file formats
-                  setLoraMsg(`File received:\n${reassembledMessage}`);
-                }
-              } else if (messageInfo.messageType === "c") {
-                // CONFIG type
-                console.log(
-                  `Received config data: ${reassembledMessage.length} chars`
-                );
-                setLoraMsg(`Config received:\n${reassembledMessage}`);
-              } else {
-                // Default text message
-                setLoraMsg(reassembledMessage);
-              }
-
-              // Clean up this message from state
-              const newMessages = { ...prev };
-              delete newMessages[messageId];
-              return newMessages;
-            } else {
-              console.warn(
-                `Incomplete message ${messageId}: ${messageInfo.receivedChunks}/${messageInfo.totalChunks} chunks received`
-              );
-            }
+      const { messageId } = frame;
 
-            return prev;
+      if (frame.kind === "start") {
+        // Frames without a source come from the configured endpoint
+        const sender = source ?? endpointAddress.current;
+        if (sender) {
+          peerVersions.current[sender] = frame.version;
+        }
+        replaceChunkedMessages({
+          ...chunkedMessagesRef.current,
+          [messageId]: createReassembly(frame, source),
+        });
+      } else if (frame.kind === "chunk") {
+        const messageInfo = chunkedMessagesRef.current[messageId];
+        // Duplicates and out-of-range chunks leave the state untouched
+        const updatedInfo = messageInfo && addChunk(messageInfo, frame);
+        if (updatedInfo && updatedInfo !== messageInfo) {
+          replaceChunkedMessages({
+            ...chunkedMessagesRef.current,
+            [messageId]: updatedInfo,
           });
         }
-        return true;
+      } else if (frame.kind === "nack") {
+        resendMissingChunks(messageId, frame.missingChunks);
+      } else if (frame.kind === "ack") {
+        markTransferDelivered(messageId, source);
+      } else if (frame.kind === "abort") {
+        const messageInfo = chunkedMessagesRef.current[messageId];
+        if (messageInfo) {
+          failIncomingTransfer(messageId, messageInfo, "cancelled");
+          const newMessages = { ...chunkedMessagesRef.current };
+          delete newMessages[messageId];
+          replaceChunkedMessages(newMessages);
+        }
+      } else {
+        const messageInfo = chunkedMessagesRef.current[messageId];
+        if (messageInfo) {
+          const updatedInfo = finishReassembly(device, frame, messageInfo);
+          const newMessages = { ...chunkedMessagesRef.current };
+          if (updatedInfo) {
+            newMessages[messageId] = updatedInfo;
+          } else {
+            delete newMessages[messageId];
+          }
+          replaceChunkedMessages(newMessages);
+        }
       }
 
-      return false; // Not a chunked message
+      return true;
     } catch (error) {
       console.error("Error parsing chunked message:", error);
       return false;
@@ -514,6 +1449,7 @@ function useBLE(): BluetoothLowEnergyApi {
   };
 
   const onLoRaMessageUpdate = (
+    device: Device,
     error: BleError | null,
     characteristic: Characteristic | null
   ): void => {
@@ -537,14 +1473,16 @@ function useBLE(): BluetoothLowEnergyApi {
     }
 
     try {
-      const loraMessage = base64.decode(characteristic.value);
+      const { source, frame } = splitSourceAddress(
+        base64.decode(characteristic.value)
+      );
 
       // Try to parse as chunked message first
-      const isChunkedMessage = parseChunkedMessage(loraMessage);
+      const isChunkedMessage = parseChunkedMessage(device, frame, source);
 
       if (!isChunkedMessage) {
         // Not a chunked message, treat as regular message
-        setLoraMsg(loraMessage);
+        receiveMessage(frame, source);
       }
     } catch (decodeError) {
       console.log("Failed to decode LoRa message");
@@ -592,7 +1530,8 @@ function useBLE(): BluetoothLowEnergyApi {
     device.monitorCharacteristicForService(
       BLE_UUID,
       BLE_CHARACTERISTIC,
-      onLoRaMessageUpdate
+      (error, characteristic) =>
+        onLoRaMessageUpdate(device, error, characteristic)
     );
 
     // Monitor config characteristic for configuration responses
@@ -612,13 +1551,22 @@ function useBLE(): BluetoothLowEnergyApi {
     configureEndpoint,
     allDevices,
     connectedDevice,
+    isReconnecting,
     disconnectFromDevice,
     clearConfigStatus,
-    loraMsg,
+    dismissFailedTransfers,
+    dismissDeliveredTransfers,
+    subscribeToMessages,
     configStatus,
+    configuredEndpoint,
     chunkedMessages,
     isReceivingChunkedMessage,
-    chunkedMessageProgress,
+    incomingTransfers,
+    outgoingTransfers,
+    cancelOutgoingTransfer,
+    setEncryptionKeys,
+    failedTransfers,
+    deliveredTransfers,
   };
 }
 
@@ -0,0 +1,330 @@
+import { useEffect, useRef } from "react";
+import { IMessage } from "react-native-gifted-chat";
+
+import {
+  MESSAGE_PATTERNS,
+  MESSAGE_PREFIXES,
+  USER_IDS,
+} from "@/constants/Messages";
+import { useBLEContext } from "@/util/contextBLE";
+import {
+  ChatMessage,
+  ConfiguredChat,
+  Contact,
+  useChatContext,
+} from "@/util/contextChat";
+import { toGroupId } from "@/util/groupDelivery";
+import { FailedTransfer, ReceivedMessage } from "@/util/useBLE";
+
+// Labels for failed incoming transfers
+const TRANSFER_TYPE_LABELS: Record<string, string> = {
+  t: "message",
+  f: "file",
+  c: "config",
+};
+
+const FAILED_TRANSFER_REASONS = {
+  timeout: "timed out",
+  incomplete: "chunks still missing after repair",
+  disconnected: "bridge disconnected",
+  cancelled: "cancelled by the sender",
+  corrupted: "corrupted transfer",
+  undecryptable: "could not be decrypted or verified, check the chat's key",
+} as const;
+
+// Turn received text into the text shown in the chat
+const formatReceivedText = (text: string): string => {
+  // Check if the message contains location coordinates
+  const locationMatch = text.match(MESSAGE_PATTERNS.LOCATION);
+  if (locationMatch) {
+    const [, lat, lng] = locationMatch;
+    return `Received ${MESSAGE_PREFIXES.LOCATION}https://maps.google.com/?q=${lat},${lng}`;
+  }
+
+  if (text === "Image shared") {
+    return "An image was shared via LoRa";
+  }
+
+  // File notifications, file content and regular text are kept as they are
+  return text;
+};
+
+// Messages from an encrypted contact that were not sealed by its node are
+// kept, but flagged, since anyone can send them. In a group the message
+// records its sender.
+const toChatMessage = (
+  received: ReceivedMessage,
+  sender: Contact | undefined,
+  chat: ConfiguredChat | undefined
+): ChatMessage => ({
+  _id: received.id,
+  text: formatReceivedText(received.text),
+  createdAt: new Date(received.receivedAt),
+  user: {
+    _id: USER_IDS.LORA_DEVICE,
+    name: chat?.group && sender ? sender.name : "LoRa Device",
+  },
+  ...(chat?.group && sender ? { senderId: sender.id } : {}),
+  ...(sender?.encryptionKey && !received.verified
+    ? { unverified: true }
+    : {}),
+});
+
+// ISO dates sort as text
+const isMoreRecent = (chat: ConfiguredChat, other: ConfiguredChat) =>
+  chat.date > other.date;
+
+// System message for an incoming transfer that was dropped before completing
+const toFailureMessage = (transfer: FailedTransfer): IMessage => ({
+  _id: `failed_${transfer.messageId}_${transfer.timestamp}`,
+  system: true,
+  text: `Failed incoming ${
+    TRANSFER_TYPE_LABELS[transfer.messageType] ?? "message"
+  } transfer (${FAILED_TRANSFER_REASONS[transfer.reason]}, ${
+    transfer.receivedChunks
+  }/${transfer.totalChunks} chunks received)`,
+  createdAt: new Date(transfer.timestamp),
+  user: {
+    _id: USER_IDS.SYSTEM,
+    name: "Bot",
+  },
+});
+
+/**
+ * Writes everything the bridge reports to the chat store as it arrives,
+ * whichever screen is visible: received messages, incoming transfers that
+ * failed, and delivery acknowledgements of sent messages. Chat screens only
+ * display what is stored.
+ *
+ * Messages are matched to chats by the source address the bridge reports,
+ * through the contact with that address. Messages that carry a group ID go
+ * to the sender's group with that ID, or the one that was active last when
+ * several match; all others, including those of groups this app does not
+ * have, go to the direct chat with the sender, which is created for a
+ * contact without one. Messages from nodes that are not contacts are held in
+ * the chat context until the user accepts the node, and their failed
+ * transfers are dropped, so no node can add chats by transmitting. Bridges
+ * that do not report the source only forward messages from the endpoint they
+ * are configured for, so those messages go to that endpoint's chat, and wait
+ * while none is configured.
+ * Anything that arrives before the chats are loaded waits as well.
+ *
+ * The keys of encrypted contacts are handed to the BLE layer from here too, so
+ * messages can be decrypted as soon as they are reassembled.
+ *
+ * Mounted once inside the BLE and chat providers.
+ */
+function useMessageIngestion(): void {
+  const ble = useBLEContext();
+  const chat = useChatContext();
+  const isIngesting = useRef(false);
+  const ingestAgain = useRef(false);
+  // Received messages that are not stored in a chat yet
+  const pending = useRef<ReceivedMessage[]>([]);
+
+  // Ingestion outlives the render that started it, so it always reads the
+  // latest context values through this ref
+  const latest = useRef({ ble, chat });
+  latest.current = { ble, chat };
+
+  // Without a source address messages come from the configured endpoint
+  const findSender = (source: string | null): Contact | undefined => {
+    const { getContacts } = latest.current.chat;
+    const address = source ?? latest.current.ble.configuredEndpoint?.macAddress;
+    return getContacts().find(
+      ({ macAddress }) =>
+        !!address && macAddress.toLowerCase() === address.toLowerCase()
+    );
+  };
+
+  // Groups of the sender whose ID, as derived by this node, is the one the
+  // message carries
+  const findGroupChat = (
+    sender: Contact,
+    groupId: string
+  ): ConfiguredChat | undefined => {
+    const { getConfiguredChats, getChatMembers } = latest.current.chat;
+    const ownAddress = latest.current.ble.connectedDevice?.localName;
+    if (!ownAddress) {
+      return undefined;
+    }
+
+    return getConfiguredChats()
+      .filter(
+        ({ id, group }) =>
+          group?.memberIds.includes(sender.id) &&
+          toGroupId([
+            ...getChatMembers(id).map(({ macAddress }) => macAddress),
+            ownAddress,
+          ]) === groupId
+      )
+      .reduce<ConfiguredChat | undefined>(
+        (latestChat, chat) =>
+          !latestChat || isMoreRecent(chat, latestChat) ? chat : latestChat,
+        undefined
+      );
+  };
+
+  const findChatId = async (
+    sender: Contact,
+    groupId: string | null
+  ): Promise<string> => {
+    const { getConfiguredChats, addConfiguredChat } = latest.current.chat;
+    const groupChat = groupId && findGroupChat(sender, groupId);
+    if (groupChat) {
+      return groupChat.id;
+    }
+
+    const directChat = getConfiguredChats().find(
+      ({ contactId, group }) => !group && contactId === sender.id
+    );
+    if (directChat) {
+      return directChat.id;
+    }
+
+    // Group members can message this node before it has a direct chat
+    return addConfiguredChat(sender.deviceName, sender.macAddress);
+  };
+
+  const storeReceivedMessages = async (): Promise<void> => {
+    const storedIds: string[] = [];
+
+    try {
+      for (const received of [...pending.current]) {
+        const {
+          addChatMessages,
+          getConfiguredChats,
+          holdUnknownSenderMessage,
+        } = latest.current.chat;
+        const sender = findSender(received.source);
+        if (!sender) {
+          // Held until the user accepts the node
+          if (received.source) {
+            holdUnknownSenderMessage(
+              received.source,
+              toChatMessage(received, undefined, undefined)
+            );
+            storedIds.push(received.id);
+          }
+          continue;
+        }
+
+        const chatId = await findChatId(sender, received.groupId);
+        const chat = getConfiguredChats().find(({ id }) => id === chatId);
+        await addChatMessages(chatId, [toChatMessage(received, sender, chat)]);
+        storedIds.push(received.id);
+      }
+    } finally {
+      pending.current = pending.current.filter(
+        ({ id }) => !storedIds.includes(id)
+      );
+    }
+  };
+
+  const storeFailedTransfers = async (): Promise<void> => {
+    const { failedTransfers, dismissFailedTransfers } = latest.current.ble;
+    const storedIds: string[] = [];
+
+    try {
+      for (const transfer of failedTransfers) {
+        const sender = findSender(transfer.source);
+        if (!sender) {
+          if (transfer.source) {
+            storedIds.push(transfer.messageId);
+          }
+          continue;
+        }
+
+        const chatId = await findChatId(sender, transfer.groupId);
+
+        await latest.current.chat.addChatMessages(chatId, [
+          toFailureMessage(transfer),
+        ]);
+        storedIds.push(transfer.messageId);
+      }
+    } finally {
+      if (storedIds.length > 0) {
+        dismissFailedTransfers(storedIds);
+      }
+    }
+  };
+
+  // Acknowledgements only carry the transfer ID the message was sent with
+  const storeDeliveries = async (): Promise<void> => {
+    const { deliveredTransfers, dismissDeliveredTransfers } =
+      latest.current.ble;
+    if (deliveredTransfers.length === 0) {
+      return;
+    }
+
+    await latest.current.chat.markTransfersDelivered(deliveredTransfers);
+    dismissDeliveredTransfers(deliveredTransfers);
+  };
+
+  const ingest = async (): Promise<void> => {
+    if (!latest.current.chat.chatsLoaded) {
+      return;
+    }
+    if (isIngesting.current) {
+      ingestAgain.current = true;
+      return;
+    }
+    isIngesting.current = true;
+    ingestAgain.current = false;
+
+    try {
+      await storeReceivedMessages();
+      await storeFailedTransfers();
+      await storeDeliveries();
+    } catch (error) {
+      console.error("Failed to store received data:", error);
+    } finally {
+      isIngesting.current = false;
+    }
+
+    // Anything that arrived while storing
+    if (ingestAgain.current) {
+      await ingest();
+    }
+  };
+
+  useEffect(
+    () =>
+      ble.subscribeToMessages((received) => {
+        pending.current = [...pending.current, received];
+        ingest();
+      }),
+    [ble.subscribeToMessages]
+  );
+
+  // Keys for the encrypted messages that arrive, kept in step with the
+  // contacts
+  useEffect(() => {
+    ble.setEncryptionKeys(
+      Object.fromEntries(
+        chat.contacts.flatMap(({ macAddress, encryptionKey }) =>
+          encryptionKey ? [[macAddress, encryptionKey] as const] : []
+        )
+      )
+    );
+  }, [ble.setEncryptionKeys, chat.contacts]);
+
+  // New failures and acknowledgements, and waiting messages that may have a
+  // chat now
+  useEffect(() => {
+    if (
+      pending.current.length > 0 ||
+      ble.failedTransfers.length > 0 ||
+      ble.deliveredTransfers.length > 0
+    ) {
+      ingest();
+    }
+  }, [
+    ble.failedTransfers,
+    ble.deliveredTransfers,
+    ble.configuredEndpoint,
+    chat.chatsLoaded,
+  ]);
+}
+
+export default useMessageIngestion;
@@ -0,0 +1,329 @@
+import { useEffect, useRef } from "react";
+import { IMessage } from "react-native-gifted-chat";
+import { Device } from "react-native-ble-plx";
+
+import { MESSAGE_PATTERNS, MESSAGE_PREFIXES } from "@/constants/Messages";
+import { readAttachment } from "@/util/attachmentStore";
+import { useBLEContext } from "@/util/contextBLE";
+import {
+  ChatMessage,
+  Contact,
+  OutboundQueue,
+  RecipientDelivery,
+  useChatContext,
+} from "@/util/contextChat";
+import {
+  getPendingRecipientIds,
+  toGroupId,
+  withRecipientDelivery,
+} from "@/util/groupDelivery";
+import {
+  EndpointConfig,
+  OutgoingTransferProgress,
+  TransferOptions,
+} from "@/util/useBLE";
+
+const toEndpointConfig = (contact: Contact): EndpointConfig => ({
+  name: contact.deviceName.toLowerCase(),
+  macAddress: contact.macAddress.toLowerCase(),
+});
+
+// Chat screens configure endpoints as they were typed
+const isSameEndpoint = (
+  a: EndpointConfig | null,
+  b: EndpointConfig | null
+): boolean =>
+  !!a &&
+  !!b &&
+  a.name.toLowerCase() === b.name.toLowerCase() &&
+  a.macAddress.toLowerCase() === b.macAddress.toLowerCase();
+
+// Oldest queued message, preferring the chat the bridge already points at
+const nextQueuedMessage = (
+  queue: OutboundQueue,
+  preferredChatId?: string
+): { chatId: string; messageId: IMessage["_id"] } | null => {
+  const chatId =
+    preferredChatId && queue[preferredChatId]?.length
+      ? preferredChatId
+      : Object.keys(queue).find((queuedChatId) => queue[queuedChatId].length);
+
+  return chatId ? { chatId, messageId: queue[chatId][0] } : null;
+};
+
+/**
+ * Transmits queued outgoing messages whenever a bridge is connected.
+ *
+ * Messages are sent one at a time in the order they were queued. Before
+ * sending for a chat the bridge is pointed at that chat's endpoint, and once
+ * the queue is empty it is pointed back at the endpoint it had before.
+ * A group message is sent to each member in turn, sealed with the member's
+ * key and carrying the group's ID, and leaves the queue once every member was
+ * tried. Members the bridge already points at are sent to without
+ * configuring it again.
+ * A message interrupted by a disconnect stays queued for the next connection.
+ *
+ * Mounted once inside the BLE and chat providers.
+ */
+function useOutboundQueue(): void {
+  const ble = useBLEContext();
+  const chat = useChatContext();
+  const isDraining = useRef(false);
+
+  // The drain loop outlives the render that started it, so it always reads
+  // the latest context values through this ref
+  const latest = useRef({ ble, chat });
+  latest.current = { ble, chat };
+
+  // Write a message to the bridge, returning its transfer ID on the wire
+  const transmitMessage = async (
+    device: Device,
+    message: ChatMessage,
+    options: TransferOptions
+  ): Promise<string> => {
+    const { writeToDevice, writeFileToDevice } = latest.current.ble;
+
+    // Handle file messages - now using chunked protocol via message characteristic
+    if (message.attachment) {
+      const { name } = message.attachment;
+      const base64Data = await readAttachment(message.attachment);
+
+      console.log(`Sending file via chunked protocol: ${name}`);
+
+      // Send via writeFileToDevice which uses "file" message type
+      return writeFileToDevice(device, name, base64Data, options);
+    }
+
+    // Handle location messages
+    if (
+      message.text.includes(
+        `${MESSAGE_PREFIXES.LOCATION}https://maps.google.com/?q=`
+      )
+    ) {
+      const coordsMatch = message.text.match(MESSAGE_PATTERNS.LOCATION_URL);
+      if (!coordsMatch) {
+        throw new Error("Location message has no coordinates");
+      }
+      const [, lat, lng] = coordsMatch;
+      return writeToDevice(device, `${lat},${lng}`, options);
+    }
+
+    // Handle regular text messages
+    return writeToDevice(device, message.text, options);
+  };
+
+  // An acknowledgement can arrive before the last write completes, so a
+  // delivered message keeps its status
+  const updateMessageStatus = (
+    chatId: string,
+    messageId: IMessage["_id"],
+    updates: Pick<ChatMessage, "status" | "transferId">
+  ) =>
+    latest.current.chat.updateChatMessage(chatId, messageId, (message) =>
+      message.status === "delivered"
+        ? { ...message, ...updates, status: "delivered" }
+        : { ...message, ...updates }
+    );
+
+  const updateRecipientStatus = (
+    chatId: string,
+    messageId: IMessage["_id"],
+    contactId: string,
+    updates: Partial<RecipientDelivery>
+  ) =>
+    latest.current.chat.updateChatMessage(chatId, messageId, (message) =>
+      withRecipientDelivery(message, contactId, updates)
+    );
+
+  const drainQueue = async (device: Device): Promise<void> => {
+    if (isDraining.current) {
+      return;
+    }
+    isDraining.current = true;
+
+    const originalEndpoint = latest.current.ble.configuredEndpoint;
+    let queueEmptied = false;
+
+    try {
+      while (latest.current.ble.connectedDevice) {
+        const { configureEndpoint, configuredEndpoint } = latest.current.ble;
+        const {
+          configuredChats,
+          getContacts,
+          getChatContact,
+          getChatMembers,
+          getOutboundQueue,
+          getChatMessage,
+          dequeueOutboundMessage,
+        } = latest.current.chat;
+
+        const currentContact = getContacts().find((contact) =>
+          isSameEndpoint(configuredEndpoint, toEndpointConfig(contact))
+        );
+        const currentChat =
+          currentContact &&
+          configuredChats.find(
+            ({ contactId }) => contactId === currentContact.id
+          );
+        const next = nextQueuedMessage(getOutboundQueue(), currentChat?.id);
+        if (!next) {
+          queueEmptied = true;
+          break;
+        }
+
+        const { chatId, messageId } = next;
+        if (!configuredChats.some(({ id }) => id === chatId)) {
+          // Removing a chat clears its queue, so the chats are still loading
+          break;
+        }
+
+        const message = await getChatMessage(chatId, messageId);
+        if (!message) {
+          await dequeueOutboundMessage(chatId, messageId);
+          continue;
+        }
+
+        // A group message goes to each member it has not reached yet, and
+        // records the delivery per member
+        const groupId =
+          message.recipients && device.localName
+            ? toGroupId([
+                ...getChatMembers(chatId).map(({ macAddress }) => macAddress),
+                device.localName,
+              ])
+            : undefined;
+        const pendingIds = getPendingRecipientIds(message);
+        const recipients = message.recipients
+          ? getContacts().filter(({ id }) => pendingIds.includes(id))
+          : [getChatContact(chatId)].filter(
+              (contact): contact is Contact => !!contact
+            );
+        const updateDelivery = (
+          contactId: string,
+          updates: Pick<ChatMessage, "status" | "transferId">
+        ) =>
+          message.recipients
+            ? updateRecipientStatus(chatId, messageId, contactId, updates)
+            : updateMessageStatus(chatId, messageId, updates);
+
+        // Members removed from the contacts can no longer be reached
+        for (const contactId of pendingIds) {
+          if (!recipients.some(({ id }) => id === contactId)) {
+            await updateDelivery(contactId, { status: "failed" });
+          }
+        }
+
+        let outcome: "done" | "cancelled" | "interrupted" = "done";
+        for (const [index, recipient] of recipients.entries()) {
+          const targetEndpoint = toEndpointConfig(recipient);
+          if (
+            !isSameEndpoint(
+              latest.current.ble.configuredEndpoint,
+              targetEndpoint
+            )
+          ) {
+            const configured = await configureEndpoint(
+              device,
+              targetEndpoint.name,
+              targetEndpoint.macAddress
+            );
+            if (!configured) {
+              // Try again on the next connection
+              outcome = "interrupted";
+              break;
+            }
+          }
+
+          await updateDelivery(recipient.id, { status: "sending" });
+
+          // Record the transfer ID as soon as the transfer starts, so the
+          // chat can show its progress and cancel it
+          let startedTransferId: string | null = null;
+          const onProgress = ({
+            messageId: transferId,
+          }: OutgoingTransferProgress) => {
+            if (startedTransferId !== transferId) {
+              startedTransferId = transferId;
+              updateDelivery(recipient.id, { transferId });
+            }
+          };
+
+          try {
+            const transferId = await transmitMessage(device, message, {
+              onProgress,
+              encryptionKey: recipient.encryptionKey,
+              groupId,
+            });
+            await updateDelivery(recipient.id, { status: "sent", transferId });
+          } catch (error) {
+            if (error instanceof Error && error.name === "AbortError") {
+              // Cancelled by the user, can be retried from the chat. The
+              // members that were still waiting are not sent to either.
+              for (const skipped of recipients.slice(index)) {
+                await updateDelivery(skipped.id, { status: "failed" });
+              }
+              outcome = "cancelled";
+              break;
+            }
+
+            if (
+              !latest.current.ble.connectedDevice ||
+              (error instanceof Error &&
+                error.message.includes("Device disconnected"))
+            ) {
+              // Keep it queued for the next connection
+              await updateDelivery(recipient.id, { status: "queued" });
+              outcome = "interrupted";
+              break;
+            }
+
+            console.error("Failed to send queued message:", error);
+            await updateDelivery(recipient.id, { status: "failed" });
+          }
+        }
+
+        if (outcome === "interrupted") {
+          break;
+        }
+        await dequeueOutboundMessage(chatId, messageId);
+      }
+
+      // Point the bridge back at the chat it was configured for before
+      if (
+        latest.current.ble.connectedDevice &&
+        originalEndpoint &&
+        !isSameEndpoint(latest.current.ble.configuredEndpoint, originalEndpoint)
+      ) {
+        await latest.current.ble.configureEndpoint(
+          device,
+          originalEndpoint.name,
+          originalEndpoint.macAddress
+        );
+      }
+    } finally {
+      isDraining.current = false;
+    }
+
+    // Messages queued while restoring the endpoint would otherwise wait for
+    // the next queue change
+    const { connectedDevice } = latest.current.ble;
+    if (
+      queueEmptied &&
+      connectedDevice &&
+      nextQueuedMessage(latest.current.chat.getOutboundQueue())
+    ) {
+      await drainQueue(connectedDevice);
+    }
+  };
+
+  // Drain when a bridge connects and whenever messages are queued
+  useEffect(() => {
+    if (ble.connectedDevice && nextQueuedMessage(chat.outboundQueue)) {
+      drainQueue(ble.connectedDevice).catch((error) =>
+        console.error("Failed to drain the outbound queue:", error)
+      );
+    }
+  }, [ble.connectedDevice, chat.outboundQueue]);
+}
+
+export default useOutboundQueue;